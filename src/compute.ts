@@ -2,9 +2,18 @@
 //  Computation — heatmap + range chart
 // ═══════════════════════════════════════════════════════════════
 
-import { FIELD_WIDTH, FIELD_LENGTH, DISPLAY_BUFFER } from './constants';
-import { evaluateShot, evaluateShotWithHint, evaluateShotAtRange } from './physics';
-import type { Params, ShotResult, HeatmapData, RangeChartData } from './types';
+import { activeField, candidateTargets, displayExtent, withTarget } from './field';
+import {
+  evaluateShot, evaluateShotWithHint, diagnoseShot, diagnoseShotAtRange,
+  evaluateShotFamilies, evaluateShotFamiliesAtRange, resolveRobotVelocity, relaxedAlternatives,
+} from './physics';
+import { resetIntegratorStats } from './integrator';
+import { hitProbability } from './montecarlo';
+import { obstaclesFromParams, overheadZonesFromParams } from './obstacles';
+import { isReachable } from './footprint';
+import { turretLimited } from './turret';
+import { isRejection, closerRejection } from './rejection';
+import type { Params, ShotResult, ShotRejection, ShotAlternatives, HeatmapData, RangeChartData } from './types';
 
 // Sentinel value distinguishing "not yet computed" from "computed as null".
 const UNCOMPUTED = undefined as unknown as (ShotResult | null);
@@ -26,24 +35,111 @@ function accumStats(data: HeatmapData, result: ShotResult): void {
  *   Phase 3 — Stragglers: full sweep for unreached cells.
  *   Phase 4 — Neighbor recovery: one more hint pass for null cells
  *             adjacent to valid ones (fixes sweep mis-seeds).
+ *   Phase 5 — Hint failures: null cells only Phases 2 and 4 tried
+ *             get a full sweep.
+ *   Phase 6 — Blocked cells: with obstacles or overhead zones defined,
+ *             null cells that have a shot once they are ignored.
+ *             Likewise, with turret stops set, null cells that have a
+ *             shot on a free turret are marked turret-limited.
+ *
+ * A full sweep that finds no shot records the cell's limiting constraint
+ * (see rejection.ts).
+ *
+ * Cells where the robot footprint does not fit (see footprint.ts) are
+ * marked unreachable up front and never solved.
+ *
+ * Each cell tries its candidate targets nearest first (only the Target
+ * controls' one outside the nearest-target mode; see solveCell), and in
+ * the field velocity frame resolves the robot's field vector against its
+ * own bearing to that target.
+ *
+ * Resets the integrator statistics, so afterwards they describe this pass.
  */
 export function computeHeatmap(params: Params): HeatmapData {
+  const field = activeField();
   const res = params.gridRes;
-  const displayLength = Math.min(FIELD_LENGTH, params.targetX + DISPLAY_BUFFER);
-  const cols = Math.ceil(displayLength / res);
-  const rows = Math.ceil(FIELD_WIDTH / res);
+  const [start, end] = displayExtent(field, params);
+  const cols = Math.ceil((end - start) / res);
+  // Anchor the grid at the alliance's wall, so red cells mirror blue ones
+  const x0 = params.alliance === 'red' ? end - cols * res : start;
+  const rows = Math.ceil(field.width / res);
+  resetIntegratorStats();
+  const cellX = (c: number) => x0 + (c + 0.5) * res;
+  const cellY = (r: number) => (r + 0.5) * res;
+
+  /** Params a cell's result was solved with: its target, velocity resolved there. */
+  const cellParams = (r: number, c: number, result: ShotResult) =>
+    resolveRobotVelocity(cellX(c), cellY(r), withTarget(params, result.target));
+
+  /** First solution over the cell's candidate targets, tagged with the one it aims at. */
+  const solveCell = (
+    r: number, c: number, solve: (fx: number, fy: number, p: Params) => ShotResult | null, p = params,
+  ): ShotResult | null => {
+    const fx = cellX(c), fy = cellY(r);
+    for (const target of candidateTargets(fx, fy, p, field)) {
+      const result = solve(fx, fy, resolveRobotVelocity(fx, fy, withTarget(p, target)));
+      if (result) {
+        result.target = target;
+        return result;
+      }
+    }
+    return null;
+  };
 
   const data: HeatmapData = {
-    cols, rows, res, results: [],
+    cols, rows, res, x0, results: [],
     minSpeed: Infinity, maxSpeed: -Infinity,
     minAngle: Infinity, maxAngle: -Infinity,
     validCount: 0,
+    blocked: [],
+    turretLimited: [],
+    rejections: [],
+    unreachable: [],
+    reachableCount: 0,
+  };
+  const swept: boolean[][] = [];
+
+  /**
+   * Full sweep over the cell's candidate targets (see solveCell); when
+   * none has a shot, records the limiting constraint (see rejection.ts).
+   */
+  const sweepCell = (r: number, c: number): ShotResult | null => {
+    swept[r][c] = true;
+    const fx = cellX(c), fy = cellY(r);
+    let rejection: ShotRejection | null = null;
+    for (const target of candidateTargets(fx, fy, params, field)) {
+      const outcome = diagnoseShot(fx, fy, resolveRobotVelocity(fx, fy, withTarget(params, target)));
+      if (!isRejection(outcome)) {
+        outcome.target = target;
+        return outcome;
+      }
+      rejection = closerRejection(rejection, outcome);
+    }
+    data.rejections[r][c] = rejection;
+    return null;
   };
 
   // Allocate grid — UNCOMPUTED means "not yet evaluated".
-  // After evaluation a cell is either a ShotResult or null.
+  // After evaluation a cell is either a ShotResult or null; unreachable
+  // cells start out null so no phase solves them.
+  const obstacles = obstaclesFromParams(params);
   for (let r = 0; r < rows; r++) {
     data.results[r] = new Array(cols).fill(UNCOMPUTED);
+    data.blocked[r] = new Array(cols).fill(false);
+    data.turretLimited[r] = new Array(cols).fill(false);
+    data.rejections[r] = new Array(cols).fill(null);
+    swept[r] = new Array(cols).fill(false);
+    data.unreachable[r] = new Array(cols).fill(false);
+    for (let c = 0; c < cols; c++) {
+      const fx = cellX(c), fy = cellY(r);
+      const nearest = withTarget(params, candidateTargets(fx, fy, params, field)[0]);
+      if (isReachable(fx, fy, nearest, field, obstacles)) {
+        data.reachableCount++;
+      } else {
+        data.unreachable[r][c] = true;
+        data.results[r][c] = null;
+      }
+    }
   }
 
   // Seed spacing: keep seeds ≤ ~0.75 m apart regardless of grid resolution.
@@ -54,9 +150,8 @@ export function computeHeatmap(params: Params): HeatmapData {
 
   for (let r = 0; r < rows; r += seedSpacing) {
     for (let c = 0; c < cols; c += seedSpacing) {
-      const fx = (c + 0.5) * res;
-      const fy = (r + 0.5) * res;
-      const result = evaluateShot(fx, fy, params);
+      if (data.unreachable[r][c]) continue;
+      const result = sweepCell(r, c);
       data.results[r][c] = result;
       if (result) {
         accumStats(data, result);
@@ -80,12 +175,9 @@ export function computeHeatmap(params: Params): HeatmapData {
       if (nr < 0 || nr >= rows || nc < 0 || nc >= cols) continue;
       if (data.results[nr][nc] !== UNCOMPUTED) continue; // already computed
 
-      const fx = (nc + 0.5) * res;
-      const fy = (nr + 0.5) * res;
-      const result = evaluateShotWithHint(
-        fx, fy, params,
-        parent.shotSpeed, parent.hoodAngleDeg * Math.PI / 180,
-      );
+      const result = solveCell(nr, nc, (fx, fy, p) => evaluateShotWithHint(
+        fx, fy, p, parent.shotSpeed, parent.hoodAngleDeg * Math.PI / 180,
+      ));
       data.results[nr][nc] = result;
       if (result) {
         accumStats(data, result);
@@ -98,9 +190,7 @@ export function computeHeatmap(params: Params): HeatmapData {
   for (let r = 0; r < rows; r++) {
     for (let c = 0; c < cols; c++) {
       if (data.results[r][c] !== UNCOMPUTED) continue;
-      const fx = (c + 0.5) * res;
-      const fy = (r + 0.5) * res;
-      const result = evaluateShot(fx, fy, params);
+      const result = sweepCell(r, c);
       data.results[r][c] = result;
       if (result) {
         accumStats(data, result);
@@ -116,6 +206,7 @@ export function computeHeatmap(params: Params): HeatmapData {
   for (let r = 0; r < rows; r++) {
     for (let c = 0; c < cols; c++) {
       if (data.results[r][c] !== null) continue; // skip valid & uncomputed
+      if (data.unreachable[r][c]) continue;
 
       // Find a valid 4-connected neighbor to borrow a hint from.
       let hint: ShotResult | null = null;
@@ -129,29 +220,92 @@ export function computeHeatmap(params: Params): HeatmapData {
       }
       if (!hint) continue;
 
-      const fx = (c + 0.5) * res;
-      const fy = (r + 0.5) * res;
-      const result = evaluateShotWithHint(
-        fx, fy, params,
-        hint.shotSpeed, hint.hoodAngleDeg * Math.PI / 180,
-      );
+      const { shotSpeed, hoodAngleDeg } = hint;
+      const result = solveCell(r, c, (fx, fy, p) => evaluateShotWithHint(
+        fx, fy, p, shotSpeed, hoodAngleDeg * Math.PI / 180,
+      ));
       if (result) {
         data.results[r][c] = result;
+        data.rejections[r][c] = null;
         accumStats(data, result);
       }
     }
   }
 
+  // ── Phase 5: Hint failures ───────────────────────────────────
+  // Cells only the hint passes tried get the full sweep the others had.
+  for (let r = 0; r < rows; r++) {
+    for (let c = 0; c < cols; c++) {
+      if (data.results[r][c] || data.unreachable[r][c] || swept[r][c]) continue;
+      const result = sweepCell(r, c);
+      if (result) {
+        data.results[r][c] = result;
+        accumStats(data, result);
+      }
+    }
+  }
+
+  // ── Phase 6: Blocked cells ───────────────────────────────────
+  if (obstacles.length + overheadZonesFromParams(params).length > 0) {
+    const open = { ...params, obstacles: '', overheadZones: '' };
+    for (let r = 0; r < rows; r++) {
+      for (let c = 0; c < cols; c++) {
+        if (data.results[r][c] || data.unreachable[r][c]) continue;
+        data.blocked[r][c] = solveCell(r, c, evaluateShot, open) !== null;
+      }
+    }
+  }
+  if (turretLimited(params)) {
+    const free = { ...params, turretMin: -180, turretMax: 180 };
+    for (let r = 0; r < rows; r++) {
+      for (let c = 0; c < cols; c++) {
+        if (data.results[r][c] || data.unreachable[r][c] || data.blocked[r][c]) continue;
+        data.turretLimited[r][c] = solveCell(r, c, evaluateShot, free) !== null;
+      }
+    }
+  }
+
+  // ── Phase 7: Per-cell extras for the color modes that need them ──
+  if (params.familyMode) {
+    for (let r = 0; r < rows; r++) {
+      for (let c = 0; c < cols; c++) {
+        const result = data.results[r][c];
+        if (!result) continue;
+        // Screened scan (see evaluateShotFamilies); at least the heatmap's
+        // own solution, even if the scan missed it
+        const families = evaluateShotFamilies(cellX(c), cellY(r), cellParams(r, c, result), true);
+        result.familyCount = Math.max(1, families.length);
+      }
+    }
+  }
+  if (params.probabilityMode) {
+    for (let r = 0; r < rows; r++) {
+      for (let c = 0; c < cols; c++) {
+        const result = data.results[r][c];
+        if (!result) continue;
+        const cp = cellParams(r, c, result);
+        result.hitProbability = hitProbability(
+          result, cp.tangentialVelo, cp.radialVelo, cp, r * cols + c + 1,
+        );
+      }
+    }
+  }
+
   return data;
 }
 
 /**
  * Compute range chart data: sweep over distance × tangential × radial.
+ * Resets the integrator statistics, like computeHeatmap.
  */
 export function computeRangeChart(params: Params): RangeChartData {
+  // Chart positions are virtual — field obstacles, overhead zones and a
+  // fixed heading do not apply
+  params = { ...params, obstacles: '', overheadZones: '', headingRule: 'target' };
   const distMin = 0.5, distMax = 6, distStep = 0.25;
   const tanMin = 0, tanMax = 5, tanStep = 0.5;
   const radMin = -3, radMax = 3, radStep = 1;
+  resetIntegratorStats();
 
   const distances: number[] = [];
   for (let d = distMin; d <= distMax + 0.001; d += distStep)
@@ -167,7 +321,7 @@ export function computeRangeChart(params: Params): RangeChartData {
 
   const data: RangeChartData = {
     distances, tangentials, radials,
-    panels: [],
+    panels: [], rejections: [],
     minSpeed: Infinity, maxSpeed: -Infinity,
     minAngle: Infinity, maxAngle: -Infinity,
     validCount: 0, totalCount: 0,
@@ -175,13 +329,17 @@ export function computeRangeChart(params: Params): RangeChartData {
 
   for (let ri = 0; ri < radials.length; ri++) {
     const panel: (import('./types').ShotResult | null)[][] = [];
+    const rejections: (ShotRejection | null)[][] = [];
     for (let ti = 0; ti < tangentials.length; ti++) {
       panel[ti] = [];
+      rejections[ti] = [];
       for (let di = 0; di < distances.length; di++) {
-        const result = evaluateShotAtRange(
+        const outcome = diagnoseShotAtRange(
           distances[di], tangentials[ti], radials[ri], params,
         );
+        const result = isRejection(outcome) ? null : outcome;
         panel[ti][di] = result;
+        rejections[ti][di] = isRejection(outcome) ? outcome : null;
         data.totalCount++;
         if (result) {
           data.validCount++;
@@ -208,6 +366,7 @@ export function computeRangeChart(params: Params): RangeChartData {
         );
         if (result) {
           panel[ti][di] = result;
+          rejections[ti][di] = null;
           data.validCount++;
           data.minSpeed = Math.min(data.minSpeed, result.shotSpeed);
           data.maxSpeed = Math.max(data.maxSpeed, result.shotSpeed);
@@ -230,6 +389,7 @@ export function computeRangeChart(params: Params): RangeChartData {
         );
         if (result) {
           panel[ti][di] = result;
+          rejections[ti][di] = null;
           data.validCount++;
           data.minSpeed = Math.min(data.minSpeed, result.shotSpeed);
           data.maxSpeed = Math.max(data.maxSpeed, result.shotSpeed);
@@ -239,7 +399,69 @@ export function computeRangeChart(params: Params): RangeChartData {
       }
     }
     data.panels[ri] = panel;
+    data.rejections[ri] = rejections;
+  }
+
+  // Solution counts (solution-count color mode only)
+  if (params.familyMode) {
+    for (let ri = 0; ri < radials.length; ri++) {
+      for (let ti = 0; ti < tangentials.length; ti++) {
+        for (let di = 0; di < distances.length; di++) {
+          const result = data.panels[ri][ti][di];
+          if (!result) continue;
+          const families = evaluateShotFamiliesAtRange(
+            distances[di], tangentials[ti], radials[ri], params, true,
+          );
+          result.familyCount = Math.max(1, families.length);
+        }
+      }
+    }
+  }
+
+  // Make probability (probability color mode only)
+  if (params.probabilityMode) {
+    let seed = 1;
+    for (let ri = 0; ri < radials.length; ri++) {
+      for (let ti = 0; ti < tangentials.length; ti++) {
+        for (let di = 0; di < distances.length; di++) {
+          const result = data.panels[ri][ti][di];
+          if (!result) { seed++; continue; }
+          result.hitProbability = hitProbability(
+            result, tangentials[ti], radials[ri], params, seed++,
+          );
+        }
+      }
+    }
   }
 
   return data;
 }
+
+// ── Alternatives for invalid cells ──────────────────────────
+
+/** The valid cell nearest (row, col) in a result grid, or null if there is none. */
+export function nearestValidCell(
+  results: (ShotResult | null)[][], row: number, col: number,
+): [number, number] | null {
+  let best: [number, number] | null = null;
+  let bestDist = Infinity;
+  results.forEach((cells, r) => cells.forEach((result, c) => {
+    const d = (r - row) ** 2 + (c - col) ** 2;
+    if (result && d < bestDist) { best = [r, c]; bestDist = d; }
+  }));
+  return best;
+}
+
+/**
+ * Relaxed solves for an invalid field position (see relaxedAlternatives),
+ * over its candidate targets nearest first: the first target with some
+ * alternative.  On demand only — each costs dozens of full solves.
+ */
+export function cellAlternatives(fx: number, fy: number, params: Params): ShotAlternatives {
+  let alt: ShotAlternatives = { hoodBands: [] };
+  for (const target of candidateTargets(fx, fy, params, activeField())) {
+    alt = relaxedAlternatives(fx, fy, resolveRobotVelocity(fx, fy, withTarget(params, target)));
+    if (alt.speedChange !== undefined || alt.hoodBands.length > 0) break;
+  }
+  return alt;
+}
@@ -4,22 +4,36 @@
 
 import { state } from './state';
 import { computeHeatmap, computeRangeChart } from './compute';
+import { integratorStats } from './integrator';
+import { airDensity, ENV_PRESETS } from './environment';
+import {
+  allPieces, findPiece, isBuiltinPiece, storePieces, deletePiece, loadCustomPieces,
+  parsePieces, piecesToJson,
+} from './gamePiece';
+import { activeField, setActiveField, parseFieldLayout, fieldLayoutToJson, primaryTarget } from './field';
+import { obstaclesFromParams, overheadZonesFromParams, obstaclesToText } from './obstacles';
+import { withLandingZone, parseLandingZone, landingZoneToText } from './landing';
+import { AIR_DENSITY } from './constants';
 import { computeLayout, render } from './render';
 import { pushStateToUrl } from './deeplink';
-import type { Params } from './types';
+import type { FieldLayout, Params } from './types';
 
 export function getViewMode(): string {
   const btn = document.querySelector('[data-group="view"] button.active') as HTMLButtonElement | null;
   return btn ? btn.dataset.mode! : 'field';
 }
 
+/** Params from the controls; a ground target is aimed at its landing zone (see withLandingZone). */
 export function readParams(): Params {
   const speedBtns = document.querySelectorAll('[data-group="speed"] button');
   const angleBtns = document.querySelectorAll('[data-group="angle"] button');
   const speedMode = [...speedBtns].find(b => b.classList.contains('active'))!.getAttribute('data-mode')!;
   const angleMode = [...angleBtns].find(b => b.classList.contains('active'))!.getAttribute('data-mode')!;
+  const velocityFrame = document.querySelector('[data-group="velocity"] button.active')!.getAttribute('data-mode')!;
+  const targetType = document.querySelector('[data-group="targetType"] button.active')!.getAttribute('data-mode')!;
+  const shooterMount = document.querySelector('[data-group="mount"] button.active')!.getAttribute('data-mode')!;
 
-  return {
+  return withLandingZone({
     speedMode,
     minSpeed:       parseFloat((document.getElementById('minSpeed') as HTMLInputElement).value),
     maxSpeed:       parseFloat((document.getElementById('maxSpeed') as HTMLInputElement).value),
@@ -30,16 +44,69 @@ export function readParams(): Params {
     fixedAngle:     parseFloat((document.getElementById('fixedAngle') as HTMLInputElement).value),
     tangentialVelo: parseFloat((document.getElementById('tangentialVelo') as HTMLInputElement).value),
     radialVelo:     parseFloat((document.getElementById('radialVelo') as HTMLInputElement).value),
+    velocityFrame,
+    fieldVx:        parseFloat((document.getElementById('fieldVx') as HTMLInputElement).value),
+    fieldVy:        parseFloat((document.getElementById('fieldVy') as HTMLInputElement).value),
+    latency:        parseFloat((document.getElementById('latency') as HTMLInputElement).value),
+    yawRate:        parseFloat((document.getElementById('yawRate') as HTMLInputElement).value),
+    leverArm:       parseFloat((document.getElementById('leverArm') as HTMLInputElement).value),
     gridRes:        parseFloat((document.getElementById('gridRes') as HTMLInputElement).value),
     shooterZ:       parseFloat((document.getElementById('shooterZ') as HTMLInputElement).value),
     ceilingHeight:  parseFloat((document.getElementById('ceilingHeight') as HTMLInputElement).value),
     targetX:        parseFloat((document.getElementById('targetX') as HTMLInputElement).value),
     targetY:        parseFloat((document.getElementById('targetY') as HTMLInputElement).value),
     targetZ:        parseFloat((document.getElementById('targetZ') as HTMLInputElement).value),
+    targetType,
+    landingZone:    (document.getElementById('landingZone') as HTMLTextAreaElement).value,
+    rollOut:        parseFloat((document.getElementById('rollOut') as HTMLInputElement).value),
+    maxApex:        parseFloat((document.getElementById('maxApex') as HTMLInputElement).value),
+    alliance:       (document.getElementById('alliance') as HTMLSelectElement).value,
+    targetMode:     (document.getElementById('targetMode') as HTMLSelectElement).value,
+    fieldView:      (document.getElementById('fieldView') as HTMLSelectElement).value,
+    hubShape:       (document.getElementById('hubShape') as HTMLSelectElement).value,
+    hubRadius:      parseFloat((document.getElementById('hubRadius') as HTMLInputElement).value),
+    hubRimHeight:   parseFloat((document.getElementById('hubRimHeight') as HTMLInputElement).value),
+    hubFunnelAngle: parseFloat((document.getElementById('hubFunnelAngle') as HTMLInputElement).value),
+    shooterMount,
+    turretOffsetX:  parseFloat((document.getElementById('turretOffsetX') as HTMLInputElement).value),
+    turretOffsetY:  parseFloat((document.getElementById('turretOffsetY') as HTMLInputElement).value),
+    exitRadius:     parseFloat((document.getElementById('exitRadius') as HTMLInputElement).value),
+    hoodArcRadius:  parseFloat((document.getElementById('hoodArcRadius') as HTMLInputElement).value),
+    wheelDiameter:  parseFloat((document.getElementById('wheelDiameter') as HTMLInputElement).value),
+    wheelCompression: parseFloat((document.getElementById('wheelCompression') as HTMLInputElement).value),
+    slipEfficiency: parseFloat((document.getElementById('slipEfficiency') as HTMLInputElement).value),
+    hoodTable:      (document.getElementById('hoodTable') as HTMLInputElement).value,
+    hoodUnit:       (document.getElementById('hoodUnit') as HTMLInputElement).value,
     maxVyAtTarget:  parseFloat((document.getElementById('maxVyAtTarget') as HTMLInputElement).value),
     maxLateralDrift: parseFloat((document.getElementById('maxLateralDrift') as HTMLInputElement).value),
+    robotLength:    parseFloat((document.getElementById('robotLength') as HTMLInputElement).value),
+    robotWidth:     parseFloat((document.getElementById('robotWidth') as HTMLInputElement).value),
+    headingRule:    (document.getElementById('headingRule') as HTMLSelectElement).value,
+    robotHeading:   parseFloat((document.getElementById('robotHeading') as HTMLInputElement).value),
+    turretMin:      parseFloat((document.getElementById('turretMin') as HTMLInputElement).value),
+    turretMax:      parseFloat((document.getElementById('turretMax') as HTMLInputElement).value),
+    obstacles:      (document.getElementById('obstacles') as HTMLTextAreaElement).value,
+    overheadZones:  (document.getElementById('overheadZones') as HTMLTextAreaElement).value,
+    solutionPolicy: (document.getElementById('solutionPolicy') as HTMLSelectElement).value,
     dragEnabled:    (document.getElementById('dragEnabled') as HTMLInputElement).checked,
-  };
+    spinRpm:        parseFloat((document.getElementById('spinRpm') as HTMLInputElement).value),
+    integratorTol:  parseFloat((document.getElementById('integratorTol') as HTMLSelectElement).value),
+    altitude:       parseFloat((document.getElementById('altitude') as HTMLInputElement).value),
+    temperature:    parseFloat((document.getElementById('temperature') as HTMLInputElement).value),
+    pressure:       parseFloat((document.getElementById('pressure') as HTMLInputElement).value),
+    humidity:       parseFloat((document.getElementById('humidity') as HTMLInputElement).value),
+    gamePiece:      pieceSelectName(),
+    ballMass:       parseFloat((document.getElementById('ballMass') as HTMLInputElement).value),
+    ballDiameter:   parseFloat((document.getElementById('ballDiameter') as HTMLInputElement).value),
+    ballCd:         parseFloat((document.getElementById('ballCd') as HTMLInputElement).value),
+    sigmaSpeed:     parseFloat((document.getElementById('sigmaSpeed') as HTMLInputElement).value),
+    sigmaAngle:     parseFloat((document.getElementById('sigmaAngle') as HTMLInputElement).value),
+    sigmaTurret:    parseFloat((document.getElementById('sigmaTurret') as HTMLInputElement).value),
+    sigmaVelocity:  parseFloat((document.getElementById('sigmaVelocity') as HTMLInputElement).value),
+    mcSamples:      parseFloat((document.getElementById('mcSamples') as HTMLInputElement).value),
+    probabilityMode: (document.getElementById('colorMode') as HTMLSelectElement).value === 'probability',
+    familyMode:     (document.getElementById('colorMode') as HTMLSelectElement).value === 'families',
+  });
 }
 
 export function updateValueDisplays(): void {
@@ -52,16 +119,72 @@ export function updateValueDisplays(): void {
   document.getElementById('fixedAngle-val')!.textContent     = val('fixedAngle').toFixed(1) + '\u00B0';
   document.getElementById('tangentialVelo-val')!.textContent = val('tangentialVelo').toFixed(1) + ' m/s';
   document.getElementById('radialVelo-val')!.textContent     = val('radialVelo').toFixed(1) + ' m/s';
+  document.getElementById('fieldVx-val')!.textContent        = val('fieldVx').toFixed(1) + ' m/s';
+  document.getElementById('fieldVy-val')!.textContent        = val('fieldVy').toFixed(1) + ' m/s';
+  document.getElementById('latency-val')!.textContent        = (val('latency') * 1000).toFixed(0) + ' ms';
+  document.getElementById('yawRate-val')!.textContent        = val('yawRate').toFixed(0) + '\u00B0/s';
+  document.getElementById('leverArm-val')!.textContent       = val('leverArm').toFixed(2) + ' m';
   document.getElementById('gridRes-val')!.textContent        = val('gridRes').toFixed(2) + ' m';
   document.getElementById('shooterZ-val')!.textContent       = val('shooterZ').toFixed(2) + ' m';
   document.getElementById('ceilingHeight-val')!.textContent  = val('ceilingHeight').toFixed(1) + ' m';
   document.getElementById('targetX-val')!.textContent        = val('targetX').toFixed(2) + ' m';
   document.getElementById('targetY-val')!.textContent        = val('targetY').toFixed(2) + ' m';
   document.getElementById('targetZ-val')!.textContent        = val('targetZ').toFixed(2) + ' m';
+  document.getElementById('rollOut-val')!.textContent        = val('rollOut').toFixed(2) + ' m';
+  document.getElementById('maxApex-val')!.textContent        = val('maxApex').toFixed(1) + ' m';
+  const alliance = (document.getElementById('alliance') as HTMLSelectElement).value;
+  const ground = document.querySelector('[data-group="targetType"] button.active')!.getAttribute('data-mode') === 'ground';
+  document.getElementById('target-heading')!.textContent =
+    `Target (${ground ? 'Landing Zone' : primaryTarget(activeField(), alliance).name})`;
+  document.getElementById('hubRadius-val')!.textContent      = val('hubRadius').toFixed(2) + ' m';
+  document.getElementById('hubRimHeight-val')!.textContent   = val('hubRimHeight').toFixed(2) + ' m';
+  document.getElementById('hubFunnelAngle-val')!.textContent = val('hubFunnelAngle').toFixed(0) + '\u00B0';
+  document.getElementById('turretOffsetX-val')!.textContent  = val('turretOffsetX').toFixed(2) + ' m';
+  document.getElementById('turretOffsetY-val')!.textContent  = val('turretOffsetY').toFixed(2) + ' m';
+  document.getElementById('exitRadius-val')!.textContent     = val('exitRadius').toFixed(2) + ' m';
+  document.getElementById('hoodArcRadius-val')!.textContent  = val('hoodArcRadius').toFixed(2) + ' m';
+  document.getElementById('wheelDiameter-val')!.textContent  = (val('wheelDiameter') / 0.0254).toFixed(2) + ' in';
+  document.getElementById('wheelCompression-val')!.textContent = (val('wheelCompression') * 1000).toFixed(1) + ' mm';
+  document.getElementById('slipEfficiency-val')!.textContent = val('slipEfficiency').toFixed(2);
   document.getElementById('maxVyAtTarget-val')!.textContent  = val('maxVyAtTarget').toFixed(1) + ' m/s';
   document.getElementById('maxLateralDrift-val')!.textContent = val('maxLateralDrift').toFixed(2) + ' m';
+  document.getElementById('robotLength-val')!.textContent    = val('robotLength').toFixed(2) + ' m';
+  document.getElementById('robotWidth-val')!.textContent     = val('robotWidth').toFixed(2) + ' m';
+  document.getElementById('robotHeading-val')!.textContent   = val('robotHeading').toFixed(0) + '\u00B0';
+  document.getElementById('turretMin-val')!.textContent      = val('turretMin').toFixed(0) + '\u00B0';
+  document.getElementById('turretMax-val')!.textContent      = val('turretMax').toFixed(0) + '\u00B0';
   document.getElementById('dragEnabled-val')!.textContent =
     (document.getElementById('dragEnabled') as HTMLInputElement).checked ? 'On' : 'Off';
+  document.getElementById('spinRpm-val')!.textContent        = val('spinRpm').toFixed(0) + ' rpm';
+  document.getElementById('altitude-val')!.textContent       = val('altitude').toFixed(0) + ' m';
+  document.getElementById('temperature-val')!.textContent    = val('temperature').toFixed(0) + '\u00B0C';
+  document.getElementById('pressure-val')!.textContent       = val('pressure').toFixed(1) + ' hPa';
+  document.getElementById('humidity-val')!.textContent       = val('humidity').toFixed(0) + '%';
+
+  document.getElementById('ballMass-val')!.textContent       = (val('ballMass') * 1000).toFixed(0) + ' g';
+  document.getElementById('ballDiameter-val')!.textContent   = (val('ballDiameter') * 1000).toFixed(0) + ' mm';
+  document.getElementById('ballCd-val')!.textContent         = val('ballCd').toFixed(2);
+
+  document.getElementById('sigmaSpeed-val')!.textContent     = '\u00B1' + val('sigmaSpeed').toFixed(2) + ' m/s';
+  document.getElementById('sigmaAngle-val')!.textContent     = '\u00B1' + val('sigmaAngle').toFixed(1) + '\u00B0';
+  document.getElementById('sigmaTurret-val')!.textContent    = '\u00B1' + val('sigmaTurret').toFixed(1) + '\u00B0';
+  document.getElementById('sigmaVelocity-val')!.textContent  = '\u00B1' + val('sigmaVelocity').toFixed(2) + ' m/s';
+  document.getElementById('mcSamples-val')!.textContent      = val('mcSamples').toFixed(0);
+
+  const rho = airDensity(val('altitude'), val('temperature'), val('pressure'), val('humidity'));
+  document.getElementById('airDensity-val')!.textContent =
+    `${rho.toFixed(3)} kg/m\u00B3 (${(rho / AIR_DENSITY * 100).toFixed(0)}%)`;
+}
+
+/** Show the integrator step counts and error estimate for the last pass. */
+export function updateDiagnostics(): void {
+  const s = integratorStats;
+  const el = document.getElementById('integrator-diag')!;
+  if (s.runs === 0) { el.textContent = ''; return; }
+  const rejectedPct = s.rejected / Math.max(1, s.steps + s.rejected) * 100;
+  el.textContent =
+    `RK45 \u00B7 ${s.steps.toLocaleString()} steps (${rejectedPct.toFixed(1)}% rejected) \u00B7 ` +
+    `${(s.steps / s.runs).toFixed(1)} / trajectory \u00B7 est. error \u2264 ${s.maxError.toExponential(1)} m`;
 }
 
 export function scheduleRecalc(): void {
@@ -85,11 +208,11 @@ export function scheduleRecalc(): void {
       } else {
         state.heatmapData = computeHeatmap(params);
         const dt = (performance.now() - t0).toFixed(0);
-        const total = state.heatmapData.cols * state.heatmapData.rows;
         document.getElementById('status')!.textContent =
-          `${state.heatmapData.validCount} / ${total} valid \u00B7 ${dt} ms`;
+          `${state.heatmapData.validCount} / ${state.heatmapData.reachableCount} valid \u00B7 ${dt} ms`;
       }
 
+      updateDiagnostics();
       render();
     });
   }, 80);
@@ -111,6 +234,14 @@ export function bindControls(): void {
         } else if (group === 'angle') {
           document.getElementById('angle-variable')!.style.display = (btn as HTMLElement).dataset.mode === 'variable' ? '' : 'none';
           document.getElementById('angle-fixed')!.style.display    = (btn as HTMLElement).dataset.mode === 'fixed' ? '' : 'none';
+        } else if (group === 'velocity') {
+          document.getElementById('velocity-chassis')!.style.display = (btn as HTMLElement).dataset.mode === 'chassis' ? '' : 'none';
+          document.getElementById('velocity-field')!.style.display   = (btn as HTMLElement).dataset.mode === 'field' ? '' : 'none';
+        } else if (group === 'targetType') {
+          document.getElementById('target-hub')!.style.display    = (btn as HTMLElement).dataset.mode === 'hub' ? '' : 'none';
+          document.getElementById('target-ground')!.style.display = (btn as HTMLElement).dataset.mode === 'ground' ? '' : 'none';
+        } else if (group === 'mount') {
+          document.getElementById('mount-turret')!.style.display = (btn as HTMLElement).dataset.mode === 'turret' ? '' : 'none';
         } else if (group === 'view') {
           document.getElementById('robot-velocity-group')!.style.display =
             (btn as HTMLElement).dataset.mode === 'range' ? 'none' : '';
@@ -121,13 +252,224 @@ export function bindControls(): void {
     });
   });
 
+  // Environment preset fills in the atmosphere; editing it switches to Custom
+  const envPreset = document.getElementById('envPreset') as HTMLSelectElement;
+  envPreset.addEventListener('change', () => {
+    const preset = ENV_PRESETS[envPreset.value];
+    if (!preset) return;
+    (document.getElementById('altitude') as HTMLInputElement).value = String(preset.altitude);
+    (document.getElementById('temperature') as HTMLInputElement).value = String(preset.temperature);
+    (document.getElementById('pressure') as HTMLInputElement).value = String(preset.pressure);
+    (document.getElementById('humidity') as HTMLInputElement).value = String(preset.humidity);
+    scheduleRecalc();
+  });
+  ['altitude', 'temperature', 'pressure', 'humidity'].forEach(id => {
+    document.getElementById(id)!.addEventListener('input', () => { envPreset.value = 'custom'; });
+  });
+
+  bindGamePieces();
+  bindFieldLayout();
+
   // All sliders and selects trigger recalc
   document.querySelectorAll('#sidebar input[type="range"], #sidebar select').forEach(el => {
     el.addEventListener('input', scheduleRecalc);
   });
 
-  // Checkboxes trigger recalc
-  document.querySelectorAll('#sidebar input[type="checkbox"]').forEach(el => {
+  // Checkboxes and text fields trigger recalc once committed
+  document.querySelectorAll('#sidebar input[type="checkbox"], #sidebar input[type="text"], #sidebar textarea').forEach(el => {
     el.addEventListener('change', scheduleRecalc);
   });
 }
+
+// ── Game-piece library ──────────────────────────────────────
+
+/** Name of the selected game piece, or 'Custom' once the sliders are edited. */
+function pieceSelectName(): string {
+  const sel = document.getElementById('gamePiece') as HTMLSelectElement;
+  return sel.value === 'custom' ? 'Custom' : sel.value;
+}
+
+/**
+ * Fill the game-piece selects (sidebar preset and modal comparison) from
+ * the library, keeping the current selections where they still exist.
+ * Call before applyUrlParams so deep-linked piece names can match.
+ */
+export function populateGamePieces(): void {
+  const pieces = allPieces();
+  const sel = document.getElementById('gamePiece') as HTMLSelectElement;
+  const cmp = document.getElementById('comparePiece') as HTMLSelectElement;
+  const prevSel = sel.value, prevCmp = cmp.value;
+
+  const options = pieces.map(g => {
+    const o = document.createElement('option');
+    o.value = o.textContent = g.name;
+    return o;
+  });
+  const custom = document.createElement('option');
+  custom.value = 'custom';
+  custom.textContent = 'Custom';
+  sel.replaceChildren(...options, custom);
+
+  const none = document.createElement('option');
+  none.value = '';
+  none.textContent = 'None';
+  cmp.replaceChildren(none, ...options.map(o => o.cloneNode(true) as HTMLOptionElement));
+
+  if (prevSel && [...sel.options].some(o => o.value === prevSel)) sel.value = prevSel;
+  if ([...cmp.options].some(o => o.value === prevCmp)) cmp.value = prevCmp;
+}
+
+/** Copy a library piece into the sliders. */
+function applyPiece(name: string): void {
+  const piece = findPiece(name);
+  if (!piece) return;
+  (document.getElementById('ballMass') as HTMLInputElement).value = String(piece.mass);
+  (document.getElementById('ballDiameter') as HTMLInputElement).value = String(piece.diameter);
+  (document.getElementById('ballCd') as HTMLInputElement).value = String(piece.dragCoefficient);
+}
+
+/** Wire the game-piece preset select, sliders and library buttons. */
+function bindGamePieces(): void {
+  const sel = document.getElementById('gamePiece') as HTMLSelectElement;
+  const fileInput = document.getElementById('piece-import-file') as HTMLInputElement;
+
+  sel.addEventListener('change', () => {
+    applyPiece(sel.value);
+    scheduleRecalc();
+  });
+  ['ballMass', 'ballDiameter', 'ballCd'].forEach(id => {
+    document.getElementById(id)!.addEventListener('input', () => { sel.value = 'custom'; });
+  });
+
+  document.getElementById('piece-save')!.addEventListener('click', () => {
+    const current = sel.value === 'custom' || isBuiltinPiece(sel.value) ? '' : sel.value;
+    const name = window.prompt('Save game piece as:', current)?.trim();
+    if (!name) return;
+    if (isBuiltinPiece(name)) {
+      window.alert(`"${name}" is a built-in game piece — choose another name.`);
+      return;
+    }
+    const p = readParams();
+    storePieces([{ name, mass: p.ballMass, diameter: p.ballDiameter, dragCoefficient: p.ballCd }]);
+    populateGamePieces();
+    sel.value = name;
+    scheduleRecalc();
+  });
+
+  document.getElementById('piece-delete')!.addEventListener('click', () => {
+    if (sel.value === 'custom' || isBuiltinPiece(sel.value)) {
+      window.alert('Only saved presets can be deleted.');
+      return;
+    }
+    if (!window.confirm(`Delete game piece "${sel.value}"?`)) return;
+    deletePiece(sel.value);
+    populateGamePieces();
+    sel.value = 'custom';
+    scheduleRecalc();
+  });
+
+  // Export saved presets, or the current piece when there are none
+  document.getElementById('piece-export')!.addEventListener('click', () => {
+    const p = readParams();
+    const saved = loadCustomPieces();
+    const pieces = saved.length > 0 ? saved
+      : [{ name: p.gamePiece, mass: p.ballMass, diameter: p.ballDiameter, dragCoefficient: p.ballCd }];
+    const blob = new Blob([piecesToJson(pieces)], { type: 'application/json' });
+    const a = document.createElement('a');
+    a.href = URL.createObjectURL(blob);
+    a.download = 'game-pieces.json';
+    a.click();
+    URL.revokeObjectURL(a.href);
+  });
+
+  document.getElementById('piece-import')!.addEventListener('click', () => fileInput.click());
+  fileInput.addEventListener('change', async () => {
+    const file = fileInput.files?.[0];
+    fileInput.value = '';
+    if (!file) return;
+    try {
+      const pieces = parsePieces(await file.text());
+      const stored = storePieces(pieces);
+      populateGamePieces();
+      const skipped = pieces.length - stored;
+      window.alert(`Imported ${stored} game piece${stored === 1 ? '' : 's'}` +
+        (skipped > 0 ? ` (${skipped} skipped: built-in names)` : '') + '.');
+    } catch (err) {
+      window.alert('Could not import game pieces: ' + (err as Error).message);
+    }
+  });
+}
+
+// ── Field layout ────────────────────────────────────────────
+
+/** Move the Target sliders to the selected alliance's primary target. */
+function applyAllianceTarget(field: FieldLayout): void {
+  const alliance = (document.getElementById('alliance') as HTMLSelectElement).value;
+  const target = primaryTarget(field, alliance);
+  (document.getElementById('targetX') as HTMLInputElement).value = String(target.x);
+  (document.getElementById('targetY') as HTMLInputElement).value = String(target.y);
+  (document.getElementById('targetZ') as HTMLInputElement).value = String(target.z);
+}
+
+/** Mirror the landing zone across the field's center line (x → length − x). */
+function mirrorLandingZone(field: FieldLayout): void {
+  const el = document.getElementById('landingZone') as HTMLTextAreaElement;
+  const points = parseLandingZone(el.value);
+  if (points.length > 0) el.value = landingZoneToText(points.map(([x, y]) => [field.length - x, y]));
+}
+
+/**
+ * Load a field layout into the controls: its obstacles and overhead zones
+ * fill the text areas, the Target sliders span the field and move to the
+ * alliance's primary target.  Call before applyUrlParams so linked values win.
+ */
+export function applyFieldLayout(field: FieldLayout): void {
+  (document.getElementById('targetX') as HTMLInputElement).max = String(field.length);
+  (document.getElementById('targetY') as HTMLInputElement).max = String(field.width);
+  (document.getElementById('obstacles') as HTMLTextAreaElement).value = obstaclesToText(field.obstacles);
+  (document.getElementById('overheadZones') as HTMLTextAreaElement).value = obstaclesToText(field.overheadZones);
+  document.getElementById('fieldName')!.textContent = field.name;
+  applyAllianceTarget(field);
+}
+
+/** Wire the field-layout load / export / default buttons. */
+function bindFieldLayout(): void {
+  const fileInput = document.getElementById('field-load-file') as HTMLInputElement;
+  const switchTo = (field: FieldLayout | null) => {
+    setActiveField(field);
+    applyFieldLayout(activeField());
+    scheduleRecalc();
+  };
+
+  document.getElementById('field-load')!.addEventListener('click', () => fileInput.click());
+  fileInput.addEventListener('change', async () => {
+    const file = fileInput.files?.[0];
+    fileInput.value = '';
+    if (!file) return;
+    try {
+      switchTo(parseFieldLayout(await file.text()));
+    } catch (err) {
+      window.alert('Could not load field layout: ' + (err as Error).message);
+    }
+  });
+
+  // Export the active layout with the obstacles as currently edited
+  document.getElementById('field-export')!.addEventListener('click', () => {
+    const p = readParams();
+    const field = { ...activeField(), obstacles: obstaclesFromParams(p), overheadZones: overheadZonesFromParams(p) };
+    const blob = new Blob([fieldLayoutToJson(field)], { type: 'application/json' });
+    const a = document.createElement('a');
+    a.href = URL.createObjectURL(blob);
+    a.download = field.name.replace(/[^\w.-]+/g, '-').toLowerCase() + '.json';
+    a.click();
+    URL.revokeObjectURL(a.href);
+  });
+
+  document.getElementById('field-default')!.addEventListener('click', () => switchTo(null));
+
+  // Switching alliance mirrors the target and the landing zone to the other side
+  document.getElementById('alliance')!.addEventListener('change', () => {
+    applyAllianceTarget(activeField());
+    mirrorLandingZone(activeField());
+  });
+}
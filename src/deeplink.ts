@@ -5,7 +5,7 @@
 import { getViewMode } from './controls';
 
 /** Map of URL param keys → { element id, type }. Modes handled separately. */
-const PARAM_KEYS: Record<string, { id: string; type: 'range' | 'select' | 'checkbox' }> = {
+const PARAM_KEYS: Record<string, { id: string; type: 'range' | 'select' | 'checkbox' | 'text' }> = {
   minSpeed:       { id: 'minSpeed',       type: 'range' },
   maxSpeed:       { id: 'maxSpeed',       type: 'range' },
   fixedSpeed:     { id: 'fixedSpeed',     type: 'range' },
@@ -14,16 +14,66 @@ const PARAM_KEYS: Record<string, { id: string; type: 'range' | 'select' | 'check
   fixedAngle:     { id: 'fixedAngle',     type: 'range' },
   tangentialVelo: { id: 'tangentialVelo', type: 'range' },
   radialVelo:     { id: 'radialVelo',     type: 'range' },
+  fieldVx:        { id: 'fieldVx',        type: 'range' },
+  fieldVy:        { id: 'fieldVy',        type: 'range' },
+  latency:        { id: 'latency',        type: 'range' },
+  yawRate:        { id: 'yawRate',        type: 'range' },
+  leverArm:       { id: 'leverArm',       type: 'range' },
   gridRes:        { id: 'gridRes',        type: 'range' },
   shooterZ:       { id: 'shooterZ',       type: 'range' },
   ceilingHeight:  { id: 'ceilingHeight',  type: 'range' },
   targetX:        { id: 'targetX',        type: 'range' },
   targetY:        { id: 'targetY',        type: 'range' },
   targetZ:        { id: 'targetZ',        type: 'range' },
+  landingZone:    { id: 'landingZone',    type: 'text' },
+  rollOut:        { id: 'rollOut',        type: 'range' },
+  maxApex:        { id: 'maxApex',        type: 'range' },
+  alliance:       { id: 'alliance',       type: 'select' },
+  targetMode:     { id: 'targetMode',     type: 'select' },
+  fieldView:      { id: 'fieldView',      type: 'select' },
+  hubShape:       { id: 'hubShape',       type: 'select' },
+  hubRadius:      { id: 'hubRadius',      type: 'range' },
+  hubRimHeight:   { id: 'hubRimHeight',   type: 'range' },
+  hubFunnelAngle: { id: 'hubFunnelAngle', type: 'range' },
+  turretOffsetX:  { id: 'turretOffsetX',  type: 'range' },
+  turretOffsetY:  { id: 'turretOffsetY',  type: 'range' },
+  exitRadius:     { id: 'exitRadius',     type: 'range' },
+  hoodArcRadius:  { id: 'hoodArcRadius',  type: 'range' },
+  wheelDiameter:  { id: 'wheelDiameter',  type: 'range' },
+  wheelCompression: { id: 'wheelCompression', type: 'range' },
+  slipEfficiency: { id: 'slipEfficiency', type: 'range' },
+  hoodTable:      { id: 'hoodTable',      type: 'text' },
+  hoodUnit:       { id: 'hoodUnit',       type: 'text' },
   maxVyAtTarget:  { id: 'maxVyAtTarget',  type: 'range' },
   maxLateralDrift: { id: 'maxLateralDrift', type: 'range' },
+  robotLength:    { id: 'robotLength',    type: 'range' },
+  robotWidth:     { id: 'robotWidth',     type: 'range' },
+  headingRule:    { id: 'headingRule',    type: 'select' },
+  robotHeading:   { id: 'robotHeading',   type: 'range' },
+  turretMin:      { id: 'turretMin',      type: 'range' },
+  turretMax:      { id: 'turretMax',      type: 'range' },
+  obstacles:      { id: 'obstacles',      type: 'text' },
+  overhead:       { id: 'overheadZones',  type: 'text' },
+  policy:         { id: 'solutionPolicy', type: 'select' },
   colorMode:      { id: 'colorMode',      type: 'select' },
+  units:          { id: 'units',          type: 'select' },
   dragEnabled:    { id: 'dragEnabled',    type: 'checkbox' },
+  spinRpm:        { id: 'spinRpm',        type: 'range' },
+  integratorTol:  { id: 'integratorTol',  type: 'select' },
+  envPreset:      { id: 'envPreset',      type: 'select' },
+  altitude:       { id: 'altitude',       type: 'range' },
+  temperature:    { id: 'temperature',    type: 'range' },
+  pressure:       { id: 'pressure',       type: 'range' },
+  humidity:       { id: 'humidity',       type: 'range' },
+  piece:          { id: 'gamePiece',      type: 'select' },
+  ballMass:       { id: 'ballMass',       type: 'range' },
+  ballDiameter:   { id: 'ballDiameter',   type: 'range' },
+  ballCd:         { id: 'ballCd',         type: 'range' },
+  sigmaSpeed:     { id: 'sigmaSpeed',     type: 'range' },
+  sigmaAngle:     { id: 'sigmaAngle',     type: 'range' },
+  sigmaTurret:    { id: 'sigmaTurret',    type: 'range' },
+  sigmaVelocity:  { id: 'sigmaVelocity',  type: 'range' },
+  mcSamples:      { id: 'mcSamples',      type: 'range' },
 };
 
 /** Apply URL search params to the DOM controls. */
@@ -32,10 +82,12 @@ export function applyUrlParams(): void {
   if (params.size === 0) return;
 
   // Mode toggles (including view)
-  (['speed', 'angle', 'view'] as const).forEach(group => {
+  (['speed', 'angle', 'velocity', 'targetType', 'mount', 'view'] as const).forEach(group => {
     const mode = params.get(group + 'Mode');
-    const validModes = group === 'view'
-      ? ['field', 'range']
+    const validModes = group === 'view' ? ['field', 'range']
+      : group === 'velocity' ? ['chassis', 'field']
+      : group === 'targetType' ? ['hub', 'ground']
+      : group === 'mount' ? ['turret', 'fixed']
       : ['variable', 'fixed'];
     if (mode && validModes.includes(mode)) {
       const toggle = document.querySelector(`[data-group="${group}"]`)!;
@@ -49,6 +101,14 @@ export function applyUrlParams(): void {
       } else if (group === 'angle') {
         document.getElementById('angle-variable')!.style.display = mode === 'variable' ? '' : 'none';
         document.getElementById('angle-fixed')!.style.display    = mode === 'fixed' ? '' : 'none';
+      } else if (group === 'velocity') {
+        document.getElementById('velocity-chassis')!.style.display = mode === 'chassis' ? '' : 'none';
+        document.getElementById('velocity-field')!.style.display   = mode === 'field' ? '' : 'none';
+      } else if (group === 'targetType') {
+        document.getElementById('target-hub')!.style.display    = mode === 'hub' ? '' : 'none';
+        document.getElementById('target-ground')!.style.display = mode === 'ground' ? '' : 'none';
+      } else if (group === 'mount') {
+        document.getElementById('mount-turret')!.style.display = mode === 'turret' ? '' : 'none';
       } else if (group === 'view') {
         document.getElementById('robot-velocity-group')!.style.display =
           mode === 'range' ? 'none' : '';
@@ -72,11 +132,15 @@ export function applyUrlParams(): void {
       }
     } else if (type === 'checkbox') {
       (el as HTMLInputElement).checked = val === '1' || val === 'true';
+    } else if (type === 'text') {
+      (el as HTMLInputElement).value = val;
     } else {
-      // select — only set if valid option
+      // select — only set if valid option; presets this browser doesn't
+      // know (e.g. another user's game piece) fall back to Custom
       const sel = el as HTMLSelectElement;
       const valid = [...sel.options].some(o => o.value === val);
       if (valid) sel.value = val;
+      else if ([...sel.options].some(o => o.value === 'custom')) sel.value = 'custom';
     }
   }
 }
@@ -90,9 +154,15 @@ export function pushStateToUrl(): void {
     .find(b => b.classList.contains('active'))?.getAttribute('data-mode');
   const angleMode = [...document.querySelectorAll('[data-group="angle"] button')]
     .find(b => b.classList.contains('active'))?.getAttribute('data-mode');
+  const velocityMode = document.querySelector('[data-group="velocity"] button.active')?.getAttribute('data-mode');
+  const targetTypeMode = document.querySelector('[data-group="targetType"] button.active')?.getAttribute('data-mode');
+  const mountMode = document.querySelector('[data-group="mount"] button.active')?.getAttribute('data-mode');
   const viewMode = getViewMode();
   p.set('speedMode', speedMode || 'variable');
   p.set('angleMode', angleMode || 'variable');
+  p.set('velocityMode', velocityMode || 'chassis');
+  p.set('targetTypeMode', targetTypeMode || 'hub');
+  p.set('mountMode', mountMode || 'turret');
   p.set('viewMode', viewMode);
 
   // Sliders, selects, and checkboxes
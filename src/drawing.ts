@@ -3,6 +3,7 @@
 // ═══════════════════════════════════════════════════════════════
 
 import type { LabelPlacer } from './labels';
+import type { RejectReason } from './types';
 
 /** Set up a canvas for HiDPI and return { ctx, w, h } in CSS pixels. */
 export function prepCanvas(canvasEl: HTMLCanvasElement): {
@@ -31,6 +32,75 @@ export function angleColor(t: number, alpha: number): string {
   return `hsla(${h}, 80%, 50%, ${alpha})`;
 }
 
+/** Fixed-scale color ramp for make probability (0–1): red (miss) → green (make). */
+export function probabilityColor(p: number, alpha: number): string {
+  const h = Math.max(0, Math.min(1, p)) * 120; // 0=red → 120=green
+  return `hsla(${h}, 85%, 50%, ${alpha})`;
+}
+
+/** Color ramp for tolerance windows (0–1 of the scale): red (tight) → green (forgiving). */
+export function toleranceColor(t: number, alpha: number): string {
+  const h = Math.max(0, Math.min(1, t)) * 120;
+  return `hsla(${h}, 75%, 50%, ${alpha})`;
+}
+
+/** Discrete colors for a solution count: 1 → blue, 2 → teal, 3 → yellow, 4+ → magenta. */
+export function familyCountColor(n: number, alpha: number): string {
+  const hues = [210, 165, 50, 300];
+  const h = hues[Math.max(0, Math.min(hues.length - 1, Math.round(n) - 1))];
+  return `hsla(${h}, 75%, 55%, ${alpha})`;
+}
+
+/** Flat color for cells whose shot only a field obstacle blocks. */
+export function blockedColor(alpha: number): string {
+  return `hsla(265, 55%, 45%, ${alpha})`;
+}
+
+/** Flat color for cells whose shot only the turret stops prevent. */
+export function turretLimitColor(alpha: number): string {
+  return `hsla(30, 60%, 40%, ${alpha})`;
+}
+
+/**
+ * Color ramp for the turret angle relative to the chassis (t = 0–1 of the
+ * scale): blue (right) → yellow-green (forward) → red → magenta (left).
+ */
+export function turretColor(t: number, alpha: number): string {
+  const h = (240 - Math.max(0, Math.min(1, t)) * 300 + 360) % 360;
+  return `hsla(${h}, 75%, 52%, ${alpha})`;
+}
+
+/** Hue, saturation and lightness per rejection reason (see rejection.ts). */
+const REJECTION_HSL: Record<RejectReason, [number, number, number]> = {
+  tooClose:      [0, 70, 45],
+  noConvergence: [215, 12, 50],
+  groundHit:     [25, 75, 42],
+  heightError:   [48, 85, 50],
+  ceiling:       [190, 70, 50],
+  descent:       [140, 55, 45],
+  lateralDrift:  [285, 55, 62],
+  rim:           [330, 70, 55],
+  landing:       [90, 55, 45],
+  obstacle:      [265, 55, 45],
+  turret:        [30, 60, 40],
+};
+
+/** Discrete color for the constraint an invalid cell fails (limiting-constraint mode). */
+export function rejectionColor(reason: RejectReason, alpha: number): string {
+  const [h, sat, l] = REJECTION_HSL[reason];
+  return `hsla(${h}, ${sat}%, ${l}%, ${alpha})`;
+}
+
+/** Flat color for valid cells in the limiting-constraint mode. */
+export function neutralColor(alpha: number): string {
+  return `hsla(210, 15%, 72%, ${alpha})`;
+}
+
+/** Flat color for cells the robot footprint cannot occupy. */
+export function unreachableColor(alpha: number): string {
+  return `hsla(215, 8%, 38%, ${alpha})`;
+}
+
 /**
  * Fixed-scale color ramp for descent angle at target.
  * ≤15° (flat) → red, ≥60° (steep) → green.
@@ -0,0 +1,52 @@
+// ═══════════════════════════════════════════════════════════════
+//  Environment — air density from altitude, temperature,
+//  pressure and humidity
+// ═══════════════════════════════════════════════════════════════
+//
+//  Pressure is entered as the sea-level (altimeter) reading a weather
+//  report gives; altitude reduces it to station pressure with the
+//  standard-atmosphere barometric formula.  Humid air is treated as an
+//  ideal mixture of dry air and water vapour (water vapour is lighter,
+//  so humidity lowers density slightly).
+// ═══════════════════════════════════════════════════════════════
+
+import type { Params, EnvironmentPreset } from './types';
+
+const R_DRY = 287.058;    // J/(kg·K), dry air
+const R_VAPOR = 461.495;  // J/(kg·K), water vapour
+
+/** Event atmospheres — keys match the Event select options in index.html. */
+export const ENV_PRESETS: Record<string, EnvironmentPreset> = {
+  standard:    { altitude: 0,    temperature: 15, pressure: 1013.25, humidity: 0 },
+  houston:     { altitude: 15,   temperature: 22, pressure: 1013.25, humidity: 55 },
+  saltLake:    { altitude: 1288, temperature: 21, pressure: 1013.25, humidity: 25 },
+  denver:      { altitude: 1609, temperature: 21, pressure: 1013.25, humidity: 25 },
+  albuquerque: { altitude: 1619, temperature: 22, pressure: 1013.25, humidity: 20 },
+  coSprings:   { altitude: 1839, temperature: 21, pressure: 1013.25, humidity: 25 },
+  mexicoCity:  { altitude: 2240, temperature: 22, pressure: 1013.25, humidity: 45 },
+};
+
+/** Station pressure (hPa) at an altitude, from the sea-level reading. */
+export function stationPressure(seaLevelHpa: number, altitude: number): number {
+  return seaLevelHpa * Math.pow(1 - 2.25577e-5 * altitude, 5.25588);
+}
+
+/** Saturation vapour pressure over water (hPa), Buck (1981). */
+function saturationPressure(tempC: number): number {
+  return 6.1121 * Math.exp((18.678 - tempC / 234.5) * (tempC / (257.14 + tempC)));
+}
+
+/** Moist-air density (kg/m³). */
+export function airDensity(
+  altitude: number, tempC: number, seaLevelHpa: number, humidityPct: number,
+): number {
+  const T = tempC + 273.15;
+  const p = stationPressure(seaLevelHpa, altitude) * 100;               // Pa
+  const pv = Math.min(1, humidityPct / 100) * saturationPressure(tempC) * 100;
+  return (p - pv) / (R_DRY * T) + pv / (R_VAPOR * T);
+}
+
+/** Air density for the environment in Params (kg/m³). */
+export function airDensityFromParams(p: Params): number {
+  return airDensity(p.altitude, p.temperature, p.pressure, p.humidity);
+}
@@ -0,0 +1,239 @@
+// ═══════════════════════════════════════════════════════════════
+//  Field layout — dimensions, targets and structures from JSON
+// ═══════════════════════════════════════════════════════════════
+//
+//  Everything season-specific about the field lives in a layout file so
+//  a new game can be dropped in without touching code:
+//
+//    { "name": "2026 REBUILT", "length": 16.54, "width": 8.07,
+//      "targets":       [{ "name": "Blue Hub", "alliance": "blue",
+//                          "x": 4.63, "y": 4.03, "z": 1.6 }, …],
+//      "allianceWalls": [{ "alliance": "blue", "x": 0 }, …],
+//      "keepOut":       [{ "shape": "box", "xMin": …, "yMin": …,
+//                          "xMax": …, "yMax": … }, …],
+//      "obstacles":     [{ "shape": "cylinder", "x": …, "y": …,
+//                          "radius": …, "height": … }, …],
+//      "overheadZones": [{ "shape": "polygon", "points": [[x, y], …],
+//                          "height": … }, …],
+//      "drawings":      [{ "type": "line", "points": [[x, y], …],
+//                          "color": "#888", "dash": [6, 4] }, …] }
+//
+//  Coordinates are field meters with the blue alliance wall at x = 0.
+//  Only name, length, width and targets are required.  The shipped field
+//  is src/fields/rebuilt-2026.json; a loaded one is kept in localStorage.
+// ═══════════════════════════════════════════════════════════════
+
+import defaultLayout from './fields/rebuilt-2026.json';
+import { DISPLAY_BUFFER } from './constants';
+import { zoneAimPoints } from './landing';
+import type { FieldDrawing, FieldLayout, FieldTarget, Footprint, Obstacle, Params } from './types';
+
+const STORAGE_KEY = 'shot-visualizer.field-layout';
+
+// ── Validation ──────────────────────────────────────────────
+
+type Json = Record<string, unknown>;
+
+const isObject = (v: unknown): v is Json => v !== null && typeof v === 'object' && !Array.isArray(v);
+const isNumber = (v: unknown): v is number => typeof v === 'number' && isFinite(v);
+const isAlliance = (v: unknown): v is 'blue' | 'red' => v === 'blue' || v === 'red';
+
+function isPoint(v: unknown): v is [number, number] {
+  return Array.isArray(v) && v.length === 2 && isNumber(v[0]) && isNumber(v[1]);
+}
+
+function isPointList(v: unknown, min: number): v is [number, number][] {
+  return Array.isArray(v) && v.length >= min && v.every(isPoint);
+}
+
+/** Optional array member; missing means empty. */
+function list(o: Json, key: string): unknown[] {
+  if (o[key] === undefined) return [];
+  if (!Array.isArray(o[key])) throw new Error(`"${key}" must be an array`);
+  return o[key] as unknown[];
+}
+
+function parseFootprint(v: unknown, where: string): Footprint {
+  const o = isObject(v) ? v : {};
+  if (o.shape === 'box' && isNumber(o.xMin) && isNumber(o.yMin) && isNumber(o.xMax) && isNumber(o.yMax)) {
+    return {
+      shape: 'box',
+      xMin: Math.min(o.xMin, o.xMax), yMin: Math.min(o.yMin, o.yMax),
+      xMax: Math.max(o.xMin, o.xMax), yMax: Math.max(o.yMin, o.yMax),
+    };
+  }
+  if (o.shape === 'cylinder' && isNumber(o.x) && isNumber(o.y) && isNumber(o.radius) && o.radius > 0) {
+    return { shape: 'cylinder', x: o.x, y: o.y, radius: o.radius };
+  }
+  if (o.shape === 'polygon' && isPointList(o.points, 3)) {
+    return { shape: 'polygon', points: o.points.map(([x, y]): [number, number] => [x, y]) };
+  }
+  throw new Error(`${where}: expected a box { xMin, yMin, xMax, yMax }, ` +
+    'cylinder { x, y, radius > 0 } or polygon { points: [[x, y], …] ≥ 3 }');
+}
+
+function parseObstacle(v: unknown, where: string): Obstacle {
+  const footprint = parseFootprint(v, where);
+  const height = (v as Json).height;
+  if (!isNumber(height) || height <= 0) throw new Error(`${where}: expected height > 0`);
+  return { ...footprint, height };
+}
+
+function parseTarget(v: unknown, where: string): FieldTarget {
+  const o = isObject(v) ? v : {};
+  if (typeof o.name !== 'string' || !isAlliance(o.alliance)
+      || !isNumber(o.x) || !isNumber(o.y) || !isNumber(o.z) || o.z <= 0) {
+    throw new Error(`${where}: expected { name, alliance: "blue" | "red", x, y, z > 0 }`);
+  }
+  return { name: o.name, alliance: o.alliance, x: o.x, y: o.y, z: o.z };
+}
+
+function parseDrawing(v: unknown, where: string): FieldDrawing {
+  const o = isObject(v) ? v : {};
+  const style = {
+    ...(typeof o.color === 'string' && { color: o.color }),
+    ...(typeof o.fill === 'string' && { fill: o.fill }),
+    ...(isNumber(o.width) && o.width > 0 && { width: o.width }),
+    ...(Array.isArray(o.dash) && o.dash.every(isNumber) && { dash: o.dash as number[] }),
+  };
+  if (o.type === 'line' && isPointList(o.points, 2)) {
+    const { fill, ...line } = style;
+    return { type: 'line', points: o.points, ...line };
+  }
+  if (o.type === 'polygon' && isPointList(o.points, 3)) return { type: 'polygon', points: o.points, ...style };
+  if (o.type === 'circle' && isNumber(o.x) && isNumber(o.y) && isNumber(o.radius) && o.radius > 0) {
+    return { type: 'circle', x: o.x, y: o.y, radius: o.radius, ...style };
+  }
+  if (o.type === 'label' && isNumber(o.x) && isNumber(o.y) && typeof o.text === 'string') {
+    return { type: 'label', x: o.x, y: o.y, text: o.text, ...(style.color && { color: style.color }) };
+  }
+  throw new Error(`${where}: expected a line, polygon, circle or label drawing`);
+}
+
+/** Validate a parsed layout object.  Throws an Error describing the first problem. */
+function validateLayout(data: unknown): FieldLayout {
+  if (!isObject(data)) throw new Error('expected a layout object');
+  if (typeof data.name !== 'string' || data.name.trim() === '') throw new Error('"name" is required');
+  if (!isNumber(data.length) || data.length <= 0 || !isNumber(data.width) || data.width <= 0) {
+    throw new Error('"length" and "width" must be positive numbers (meters)');
+  }
+  const targets = list(data, 'targets').map((t, i) => parseTarget(t, `targets[${i}]`));
+  if (targets.length === 0) throw new Error('at least one target is required');
+
+  return {
+    name: data.name.trim(),
+    length: data.length,
+    width: data.width,
+    targets,
+    allianceWalls: list(data, 'allianceWalls').map((w, i) => {
+      const o = isObject(w) ? w : {};
+      if (!isAlliance(o.alliance) || !isNumber(o.x)) {
+        throw new Error(`allianceWalls[${i}]: expected { alliance: "blue" | "red", x }`);
+      }
+      return { alliance: o.alliance, x: o.x };
+    }),
+    keepOut: list(data, 'keepOut').map((k, i) => parseFootprint(k, `keepOut[${i}]`)),
+    obstacles: list(data, 'obstacles').map((o, i) => parseObstacle(o, `obstacles[${i}]`)),
+    overheadZones: list(data, 'overheadZones').map((o, i) => parseObstacle(o, `overheadZones[${i}]`)),
+    drawings: list(data, 'drawings').map((d, i) => parseDrawing(d, `drawings[${i}]`)),
+  };
+}
+
+/** Parse and validate a field layout from JSON.  Throws an Error describing the first problem. */
+export function parseFieldLayout(json: string): FieldLayout {
+  return validateLayout(JSON.parse(json));
+}
+
+/** Serialize a field layout for export. */
+export function fieldLayoutToJson(field: FieldLayout): string {
+  return JSON.stringify(field, null, 2);
+}
+
+// ── Active layout ───────────────────────────────────────────
+
+export const DEFAULT_FIELD: FieldLayout = validateLayout(defaultLayout);
+
+/** The layout saved in localStorage (null if missing or corrupt). */
+function loadStoredField(): FieldLayout | null {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? parseFieldLayout(raw) : null;
+  } catch {
+    return null;
+  }
+}
+
+let active: FieldLayout = loadStoredField() ?? DEFAULT_FIELD;
+
+/** The field layout everything is drawn and computed on. */
+export function activeField(): FieldLayout {
+  return active;
+}
+
+/** Switch layouts and remember the choice; null restores the shipped field. */
+export function setActiveField(field: FieldLayout | null): void {
+  active = field ?? DEFAULT_FIELD;
+  if (field) localStorage.setItem(STORAGE_KEY, fieldLayoutToJson(field));
+  else localStorage.removeItem(STORAGE_KEY);
+}
+
+// ── Alliances & targets ─────────────────────────────────────
+
+/**
+ * An alliance's targets.  A layout that only lists one alliance's targets
+ * gets the other's by mirroring them across the center line.
+ */
+export function allianceTargets(field: FieldLayout, alliance: string): FieldTarget[] {
+  const own = field.targets.filter(t => t.alliance === alliance);
+  if (own.length > 0) return own;
+  return field.targets.map(t => ({
+    ...t,
+    name: t.name.replace(/blue|red/i, alliance === 'red' ? 'Red' : 'Blue'),
+    alliance: alliance === 'red' ? 'red' as const : 'blue' as const,
+    x: field.length - t.x,
+  }));
+}
+
+/** The target the sidebar's Target controls start from — the alliance's first. */
+export function primaryTarget(field: FieldLayout, alliance = 'blue'): FieldTarget {
+  return allianceTargets(field, alliance)[0];
+}
+
+/** Params aimed at a field target; undefined keeps the Target controls' one. */
+export function withTarget(p: Params, t: FieldTarget | undefined): Params {
+  return t ? { ...p, targetX: t.x, targetY: t.y, targetZ: t.z } : p;
+}
+
+/**
+ * Targets a shot from (x, y) may aim at, nearest first: every target of
+ * the alliance in the nearest-target mode, else just the Target controls'
+ * one (undefined — see withTarget).  A ground target is never swapped
+ * for a hub; it aims at its zone's centroid, then at the other aim points
+ * over the zone (see zoneAimPoints).
+ */
+export function candidateTargets(
+  x: number, y: number, p: Params, field: FieldLayout,
+): (FieldTarget | undefined)[] {
+  if (p.targetType === 'ground') return [undefined, ...zoneAimPoints(p)];
+  if (p.targetMode !== 'nearest') return [undefined];
+  return allianceTargets(field, p.alliance)
+    .map(t => ({ t, d: Math.hypot(t.x - x, t.y - y) }))
+    .sort((a, b) => a.d - b.d)
+    .map(({ t }) => t);
+}
+
+/**
+ * Field x-extent [start, end] the field view shows: the whole field, or
+ * the alliance's side — from its wall to DISPLAY_BUFFER past its farthest
+ * target.  A landing zone is fed from anywhere, so ground targets always
+ * show the whole field.
+ */
+export function displayExtent(field: FieldLayout, p: Params): [number, number] {
+  if (p.fieldView === 'full' || p.targetType === 'ground') return [0, field.length];
+  const xs = p.targetMode === 'nearest' ? allianceTargets(field, p.alliance).map(t => t.x) : [p.targetX];
+  const wall = field.allianceWalls.find(w => w.alliance === p.alliance)?.x
+    ?? (p.alliance === 'red' ? field.length : 0);
+  const start = Math.min(wall, Math.min(...xs) - DISPLAY_BUFFER);
+  const end = Math.max(wall, Math.max(...xs) + DISPLAY_BUFFER);
+  return [Math.max(0, start), Math.min(field.length, end)];
+}
@@ -0,0 +1,98 @@
+// ═══════════════════════════════════════════════════════════════
+//  Robot footprint — where the robot can physically stand
+// ═══════════════════════════════════════════════════════════════
+//
+//  The robot is a bumper-inclusive rectangle (length along its forward
+//  axis, width across it) centered on the field position.  A position is
+//  reachable when, at a heading allowed by the heading rule, the rectangle
+//  stays inside the field perimeter and clear of every keep-out zone and
+//  floor obstacle footprint:
+//
+//    any      some heading fits (tested every 15°)
+//    target   forward axis pointed at the target
+//    fixed    the Robot Heading setting (field frame, CCW from +x)
+//
+//  The same rule sets the heading the robot shoots at (chassisHeading),
+//  which places the turret pivot and is what the turret stops are
+//  measured from.  A turretless robot turns to aim, so the fixed rule
+//  does not apply to it.
+// ═══════════════════════════════════════════════════════════════
+
+import { footprintDistance, obstacleOutline } from './obstacles';
+import type { FieldLayout, Footprint, Params } from './types';
+
+const ANY_HEADING_STEP = Math.PI / 12;
+
+/** Corners of the robot rectangle centered at (x, y) with the given heading (rad). */
+export function robotCorners(
+  x: number, y: number, heading: number, length: number, width: number,
+): [number, number][] {
+  const c = Math.cos(heading), s = Math.sin(heading);
+  const hl = length / 2, hw = width / 2;
+  return ([[hl, hw], [-hl, hw], [-hl, -hw], [hl, -hw]] as const).map(
+    ([u, v]): [number, number] => [x + u * c - v * s, y + u * s + v * c],
+  );
+}
+
+/** Whether segments a1→a2 and b1→b2 properly cross. */
+function segmentsCross(
+  a1: [number, number], a2: [number, number], b1: [number, number], b2: [number, number],
+): boolean {
+  const side = (p: [number, number], q: [number, number], r: [number, number]) =>
+    Math.sign((q[0] - p[0]) * (r[1] - p[1]) - (q[1] - p[1]) * (r[0] - p[0]));
+  return side(a1, a2, b1) * side(a1, a2, b2) < 0 && side(b1, b2, a1) * side(b1, b2, a2) < 0;
+}
+
+/** Whether a robot outline (convex polygon) overlaps a footprint.  Touching is not overlap. */
+function overlaps(corners: [number, number][], f: Footprint): boolean {
+  const robot: Footprint = { shape: 'polygon', points: corners };
+  if (f.shape === 'cylinder') return footprintDistance(robot, f.x, f.y) < f.radius;
+
+  const outline = obstacleOutline(f);
+  if (corners.some(([x, y]) => footprintDistance(f, x, y) < 0)) return true;
+  if (outline.some(([x, y]) => footprintDistance(robot, x, y) < 0)) return true;
+  for (let i = 0; i < corners.length; i++) {
+    const a1 = corners[i], a2 = corners[(i + 1) % corners.length];
+    for (let j = 0; j < outline.length; j++) {
+      if (segmentsCross(a1, a2, outline[j], outline[(j + 1) % outline.length])) return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Chassis heading (rad) while shooting from (x, y): the Robot Heading
+ * setting under the fixed rule, else facing the target — a robot free
+ * to turn squares up to it.  A turretless robot aims with its chassis,
+ * so it always faces the target here (the solver refines the exact
+ * heading; see launchPoint).
+ */
+export function chassisHeading(x: number, y: number, p: Params): number {
+  if (p.headingRule === 'fixed' && p.shooterMount !== 'fixed') return p.robotHeading * Math.PI / 180;
+  return Math.atan2(p.targetY - y, p.targetX - x);
+}
+
+/** Headings (rad) the heading rule allows at (x, y). */
+function allowedHeadings(x: number, y: number, p: Params): number[] {
+  if (p.headingRule !== 'any') return [chassisHeading(x, y, p)];
+  // A rectangle repeats every half turn
+  return Array.from({ length: Math.round(Math.PI / ANY_HEADING_STEP) }, (_, i) => i * ANY_HEADING_STEP);
+}
+
+/**
+ * Whether the robot can stand at (x, y) on the field: inside the
+ * perimeter and clear of the layout's keep-out zones and the floor
+ * obstacles, at some allowed heading.  A zero-size footprint only has to
+ * be on the field.
+ */
+export function isReachable(
+  x: number, y: number, p: Params, field: FieldLayout, obstacles: Footprint[],
+): boolean {
+  const keepOut = [...field.keepOut, ...obstacles];
+  return allowedHeadings(x, y, p).some(heading => {
+    const corners = robotCorners(x, y, heading, p.robotLength, p.robotWidth);
+    const onField = corners.every(([cx, cy]) =>
+      cx >= 0 && cx <= field.length && cy >= 0 && cy <= field.width);
+    return onField && !keepOut.some(k => overlaps(corners, k));
+  });
+}
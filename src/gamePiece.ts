@@ -0,0 +1,109 @@
+// ═══════════════════════════════════════════════════════════════
+//  Game-piece library — built-in and user presets
+// ═══════════════════════════════════════════════════════════════
+//
+//  Built-in pieces ship with the app; user presets live in
+//  localStorage and can be exported / imported as JSON:
+//
+//    [{ "name": "Worn ball", "mass": 0.22, "diameter": 0.148,
+//       "dragCoefficient": 0.52 }, …]
+// ═══════════════════════════════════════════════════════════════
+
+import { BALL_MASS, BALL_DIAMETER, DRAG_COEFFICIENT } from './constants';
+import type { GamePiece, Params } from './types';
+
+const STORAGE_KEY = 'shot-visualizer.game-pieces';
+
+export const BUILTIN_PIECES: GamePiece[] = [
+  { name: '2026 ball (new)',            mass: BALL_MASS, diameter: BALL_DIAMETER, dragCoefficient: DRAG_COEFFICIENT },
+  { name: '2026 ball (worn)',           mass: 0.220,     diameter: 0.148,         dragCoefficient: 0.52 },
+  { name: '2026 ball (under-inflated)', mass: BALL_MASS, diameter: 0.144,         dragCoefficient: 0.55 },
+  { name: '2022 Cargo',                 mass: 0.270,     diameter: 0.2413,        dragCoefficient: 0.50 },
+  { name: '2020 Power Cell',            mass: 0.142,     diameter: 0.178,         dragCoefficient: 0.50 },
+];
+
+/** The game piece described by the current Params. */
+export function pieceFromParams(p: Params): GamePiece {
+  return { name: p.gamePiece, mass: p.ballMass, diameter: p.ballDiameter, dragCoefficient: p.ballCd };
+}
+
+/**
+ * Parse and validate game pieces from JSON — an array of pieces or a
+ * single piece object.  Throws an Error describing the first bad entry.
+ */
+export function parsePieces(json: string): GamePiece[] {
+  const data: unknown = JSON.parse(json);
+  const list = Array.isArray(data) ? data : [data];
+  return list.map((item, i) => {
+    const o = item as Record<string, unknown>;
+    const ok = o !== null && typeof o === 'object'
+      && typeof o.name === 'string' && o.name.trim() !== ''
+      && typeof o.mass === 'number' && o.mass > 0
+      && typeof o.diameter === 'number' && o.diameter > 0
+      && typeof o.dragCoefficient === 'number' && o.dragCoefficient >= 0;
+    if (!ok) {
+      throw new Error(`Entry ${i + 1}: expected { name, mass > 0, diameter > 0, dragCoefficient ≥ 0 }`);
+    }
+    return {
+      name: (o.name as string).trim(),
+      mass: o.mass as number,
+      diameter: o.diameter as number,
+      dragCoefficient: o.dragCoefficient as number,
+    };
+  });
+}
+
+/** Serialize game pieces for export. */
+export function piecesToJson(pieces: GamePiece[]): string {
+  return JSON.stringify(pieces, null, 2);
+}
+
+/** User presets from localStorage (empty if missing or corrupt). */
+export function loadCustomPieces(): GamePiece[] {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? parsePieces(raw) : [];
+  } catch {
+    return [];
+  }
+}
+
+function saveCustomPieces(pieces: GamePiece[]): void {
+  localStorage.setItem(STORAGE_KEY, piecesToJson(pieces));
+}
+
+/** Built-in pieces followed by user presets. */
+export function allPieces(): GamePiece[] {
+  return [...BUILTIN_PIECES, ...loadCustomPieces()];
+}
+
+export function isBuiltinPiece(name: string): boolean {
+  return BUILTIN_PIECES.some(b => b.name === name);
+}
+
+/** Find a piece by name among built-in and user presets. */
+export function findPiece(name: string): GamePiece | null {
+  return allPieces().find(g => g.name === name) ?? null;
+}
+
+/**
+ * Add or replace user presets by name.  Built-in names are rejected so a
+ * preset can never shadow a shipped piece.  Returns the number stored.
+ */
+export function storePieces(pieces: GamePiece[]): number {
+  const custom = loadCustomPieces();
+  let stored = 0;
+  for (const g of pieces) {
+    if (isBuiltinPiece(g.name)) continue;
+    const i = custom.findIndex(c => c.name === g.name);
+    if (i >= 0) custom[i] = g; else custom.push(g);
+    stored++;
+  }
+  saveCustomPieces(custom);
+  return stored;
+}
+
+/** Remove a user preset by name. */
+export function deletePiece(name: string): void {
+  saveCustomPieces(loadCustomPieces().filter(g => g.name !== name));
+}
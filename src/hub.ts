@@ -0,0 +1,89 @@
+// ═══════════════════════════════════════════════════════════════
+//  Hub geometry — finite opening, rim and funnel wall
+// ═══════════════════════════════════════════════════════════════
+//
+//  The hub is modeled as an opening (circle or hexagon) in a horizontal
+//  plane at the target height, with a funnel wall flaring outward from
+//  the opening up to the rim.  Outside the rim footprint the hub body is
+//  treated as a vertical wall down to the floor.
+//
+//  All in-plane distances are signed: positive inside the shape.
+// ═══════════════════════════════════════════════════════════════
+
+import type { HubGeometry, Params } from './types';
+
+/** Outward flat normals of the hexagon: 0°, 60°, … 300°. */
+const HEX_NORMALS: [number, number][] = [0, 1, 2, 3, 4, 5].map(
+  i => [Math.cos(i * Math.PI / 3), Math.sin(i * Math.PI / 3)],
+);
+
+/** Build the hub geometry from Params. */
+export function hubFromParams(p: Params): HubGeometry {
+  return {
+    shape: p.hubShape === 'hex' ? 'hex' : 'circle',
+    radius: p.hubRadius,
+    z: p.targetZ,
+    rimHeight: p.hubRimHeight,
+    funnelAngleRad: p.hubFunnelAngle * Math.PI / 180,
+  };
+}
+
+/**
+ * Signed distance (m) from a horizontal offset (dx, dy) — relative to the
+ * hub center, in field axes — to the opening boundary.  Positive inside.
+ *
+ * Hexagon flats face the field X and ±60° directions.  Outside a hexagon
+ * the value is the distance to the nearest edge line, which slightly
+ * under-estimates the true distance near corners (conservative).
+ */
+export function openingSignedDistance(hub: HubGeometry, dx: number, dy: number): number {
+  if (hub.shape === 'circle') {
+    return hub.radius - Math.sqrt(dx * dx + dy * dy);
+  }
+  let maxProj = -Infinity;
+  for (const [nx, ny] of HEX_NORMALS) {
+    const proj = dx * nx + dy * ny;
+    if (proj > maxProj) maxProj = proj;
+  }
+  return hub.radius - maxProj;
+}
+
+/** Distance from the hub center to the opening boundary along a field heading (rad). */
+export function openingHalfWidth(hub: HubGeometry, heading: number): number {
+  if (hub.shape === 'circle') return hub.radius;
+  // Angular distance to the nearest flat normal (normals every 60°)
+  const sector = Math.PI / 3;
+  const rel = ((heading % sector) + sector) % sector;
+  const delta = Math.min(rel, sector - rel);
+  return hub.radius / Math.cos(delta);
+}
+
+/**
+ * Distance (m) from a ball center to the nearest hub surface.  Negative
+ * means the center is inside solid hub structure.
+ *
+ *   s0 — signed in-plane distance to the opening boundary (at the throat)
+ *   z  — absolute height of the ball center
+ *
+ * Above the rim the nearest surface is the rim edge; within the funnel
+ * band it is the sloped wall or the rim edge; beside the hub it is the
+ * vertical outer wall.
+ */
+export function hubSurfaceDistance(hub: HubGeometry, s0: number, z: number): number {
+  const tanA = Math.tan(hub.funnelAngleRad);
+  const cosA = Math.cos(hub.funnelAngleRad);
+  const zTop = hub.z + hub.rimHeight;
+  const sTop = s0 + hub.rimHeight * tanA;
+  const rimDist = Math.sqrt(sTop * sTop + (z - zTop) * (z - zTop));
+
+  if (z >= zTop) return rimDist;
+
+  if (z >= hub.z) {
+    const sWall = s0 + (z - hub.z) * tanA;
+    if (sWall >= 0) return Math.min(sWall * cosA, rimDist);
+    if (sTop >= 0) return sWall * cosA; // inside the funnel structure
+  }
+
+  // Beside the hub (positive) or under it (negative)
+  return -sTop;
+}
@@ -0,0 +1,217 @@
+// ═══════════════════════════════════════════════════════════════
+//  Adaptive ODE integrator — Dormand–Prince RK5(4) with dense output
+// ═══════════════════════════════════════════════════════════════
+//
+//  Embedded Runge–Kutta pair of Dormand & Prince (1980): the 5th-order
+//  solution is propagated and the 4th-order companion supplies a local
+//  error estimate.  The last stage is reused as the first stage of the
+//  next step (FSAL), so an accepted step costs six derivative calls.
+//
+//  Step size is controlled on a mixed absolute / relative RMS norm with
+//  the same tolerance for both; steps over tolerance are rejected and
+//  retried smaller.
+//
+//  Each accepted step carries Hairer's 4th-order continuous extension, so
+//  callers can sample the solution anywhere inside a step and locate
+//  events (target-range crossing, floor, apex) without shrinking steps.
+// ═══════════════════════════════════════════════════════════════
+
+/** Time derivative of the state: writes dy/dt into out. */
+export type Derivative = (t: number, y: number[], out: number[]) => void;
+
+/** One accepted integration step with dense output. */
+export interface DenseStep {
+  t0: number;
+  t1: number;
+  y0: number[];
+  y1: number[];
+  /** Interpolated state at t ∈ [t0, t1]. */
+  at(t: number): number[];
+}
+
+/** Running totals across integrate() calls — see resetIntegratorStats(). */
+export interface IntegratorStats {
+  /** Number of integrate() calls. */
+  runs: number;
+  /** Accepted steps. */
+  steps: number;
+  /** Rejected (retried) steps. */
+  rejected: number;
+  /** Derivative evaluations. */
+  evals: number;
+  /** Largest accumulated local position-error estimate of any run (m). */
+  maxError: number;
+}
+
+export const integratorStats: IntegratorStats = {
+  runs: 0, steps: 0, rejected: 0, evals: 0, maxError: 0,
+};
+
+/** Zero the running totals (call before a heatmap / range chart pass). */
+export function resetIntegratorStats(): void {
+  integratorStats.runs = 0;
+  integratorStats.steps = 0;
+  integratorStats.rejected = 0;
+  integratorStats.evals = 0;
+  integratorStats.maxError = 0;
+}
+
+// ── Dormand–Prince tableau ──────────────────────────────────
+
+const C2 = 1 / 5, C3 = 3 / 10, C4 = 4 / 5, C5 = 8 / 9;
+const A21 = 1 / 5;
+const A31 = 3 / 40, A32 = 9 / 40;
+const A41 = 44 / 45, A42 = -56 / 15, A43 = 32 / 9;
+const A51 = 19372 / 6561, A52 = -25360 / 2187, A53 = 64448 / 6561, A54 = -212 / 729;
+const A61 = 9017 / 3168, A62 = -355 / 33, A63 = 46732 / 5247, A64 = 49 / 176, A65 = -5103 / 18656;
+const A71 = 35 / 384, A73 = 500 / 1113, A74 = 125 / 192, A75 = -2187 / 6784, A76 = 11 / 84;
+
+// 5th-order minus 4th-order weights (error estimate)
+const E1 = 71 / 57600, E3 = -71 / 16695, E4 = 71 / 1920;
+const E5 = -17253 / 339200, E6 = 22 / 525, E7 = -1 / 40;
+
+// Continuous-extension weights
+const D1 = -12715105075 / 11282082432, D3 = 87487479700 / 32700410799;
+const D4 = -10690763975 / 1880347072, D5 = 701980252875 / 199316789632;
+const D6 = -1453857185 / 822651844, D7 = 69997945 / 29380423;
+
+const SAFETY = 0.9;
+const MIN_SCALE = 0.2;
+const MAX_SCALE = 5;
+const H_INIT = 0.02;  // s
+const H_MAX = 0.5;    // s — bounds the dense-output span of a single step
+const H_MIN = 1e-7;   // s
+
+/**
+ * Integrate y' = f(t, y) from t = 0 until onStep returns true or t reaches
+ * tMax (the last step lands exactly on tMax).
+ *
+ * onStep is called once per accepted step.  Returns true if onStep
+ * stopped the integration, false if it ran to tMax.
+ */
+export function integrate(
+  f: Derivative, y0: number[], tMax: number, tol: number,
+  onStep: (step: DenseStep) => boolean,
+): boolean {
+  const n = y0.length;
+  const k1 = new Array<number>(n), k2 = new Array<number>(n), k3 = new Array<number>(n);
+  const k4 = new Array<number>(n), k5 = new Array<number>(n), k6 = new Array<number>(n);
+  const k7 = new Array<number>(n), tmp = new Array<number>(n);
+
+  let y = y0.slice();
+  let t = 0;
+  let h = Math.min(H_INIT, tMax);
+  let posError = 0;
+  let stopped = false;
+
+  integratorStats.runs++;
+  f(t, y, k1);
+  integratorStats.evals++;
+
+  while (t < tMax && !stopped) {
+    if (t + h > tMax) h = tMax - t;
+
+    for (let i = 0; i < n; i++) tmp[i] = y[i] + h * A21 * k1[i];
+    f(t + C2 * h, tmp, k2);
+    for (let i = 0; i < n; i++) tmp[i] = y[i] + h * (A31 * k1[i] + A32 * k2[i]);
+    f(t + C3 * h, tmp, k3);
+    for (let i = 0; i < n; i++) tmp[i] = y[i] + h * (A41 * k1[i] + A42 * k2[i] + A43 * k3[i]);
+    f(t + C4 * h, tmp, k4);
+    for (let i = 0; i < n; i++) {
+      tmp[i] = y[i] + h * (A51 * k1[i] + A52 * k2[i] + A53 * k3[i] + A54 * k4[i]);
+    }
+    f(t + C5 * h, tmp, k5);
+    for (let i = 0; i < n; i++) {
+      tmp[i] = y[i] + h * (A61 * k1[i] + A62 * k2[i] + A63 * k3[i] + A64 * k4[i] + A65 * k5[i]);
+    }
+    f(t + h, tmp, k6);
+    const y1 = new Array<number>(n);
+    for (let i = 0; i < n; i++) {
+      y1[i] = y[i] + h * (A71 * k1[i] + A73 * k3[i] + A74 * k4[i] + A75 * k5[i] + A76 * k6[i]);
+    }
+    f(t + h, y1, k7);
+    integratorStats.evals += 6;
+
+    // Local error estimate, mixed abs / rel RMS norm
+    let errSq = 0, stepPosErr = 0;
+    for (let i = 0; i < n; i++) {
+      const e = h * (E1 * k1[i] + E3 * k3[i] + E4 * k4[i] + E5 * k5[i] + E6 * k6[i] + E7 * k7[i]);
+      const sc = tol + tol * Math.max(Math.abs(y[i]), Math.abs(y1[i]));
+      errSq += (e / sc) * (e / sc);
+      if (i < 3) stepPosErr += e * e;
+    }
+    const err = Math.sqrt(errSq / n);
+
+    if (err > 1 && h > H_MIN) {
+      integratorStats.rejected++;
+      h *= Math.max(MIN_SCALE, SAFETY * Math.pow(err, -0.2));
+      continue;
+    }
+
+    // Accepted — build the dense-output polynomial for this step
+    const r2 = new Array<number>(n), r3 = new Array<number>(n);
+    const r4 = new Array<number>(n), r5 = new Array<number>(n);
+    for (let i = 0; i < n; i++) {
+      const dy = y1[i] - y[i];
+      const bspl = h * k1[i] - dy;
+      r2[i] = dy;
+      r3[i] = bspl;
+      r4[i] = dy - h * k7[i] - bspl;
+      r5[i] = h * (D1 * k1[i] + D3 * k3[i] + D4 * k4[i] + D5 * k5[i] + D6 * k6[i] + D7 * k7[i]);
+    }
+    const yStart = y, tStart = t, hStep = h;
+    const step: DenseStep = {
+      t0: tStart, t1: tStart + hStep, y0: yStart, y1,
+      at(tq: number): number[] {
+        const th = (tq - tStart) / hStep, th1 = 1 - th;
+        const out = new Array<number>(n);
+        for (let i = 0; i < n; i++) {
+          out[i] = yStart[i] + th * (r2[i] + th1 * (r3[i] + th * (r4[i] + th1 * r5[i])));
+        }
+        return out;
+      },
+    };
+
+    integratorStats.steps++;
+    posError += Math.sqrt(stepPosErr);
+    t += h;
+    y = y1;
+    for (let i = 0; i < n; i++) k1[i] = k7[i];
+
+    stopped = onStep(step);
+
+    const scale = err > 0 ? SAFETY * Math.pow(err, -0.2) : MAX_SCALE;
+    h = Math.min(H_MAX, h * Math.min(MAX_SCALE, Math.max(MIN_SCALE, scale)));
+  }
+
+  if (posError > integratorStats.maxError) integratorStats.maxError = posError;
+  return stopped;
+}
+
+/**
+ * Locate an event inside a step: the first time g(y) crosses from
+ * negative to ≥ 0.  Returns null if g does not rise through zero between
+ * the step endpoints.  The crossing is refined on the dense output with
+ * the Illinois variant of regula falsi.
+ */
+export function locateEvent(step: DenseStep, g: (y: number[]) => number): number | null {
+  let ga = g(step.y0), gb = g(step.y1);
+  if (!(ga < 0 && gb >= 0)) return null;
+
+  let a = step.t0, b = step.t1;
+  let side = 0;
+  for (let iter = 0; iter < 40 && b - a > 1e-10; iter++) {
+    const c = (a * gb - b * ga) / (gb - ga);
+    const gc = g(step.at(c));
+    if (gc >= 0) {
+      b = c; gb = gc;
+      if (side === -1) ga /= 2;
+      side = -1;
+    } else {
+      a = c; ga = gc;
+      if (side === 1) gb /= 2;
+      side = 1;
+    }
+  }
+  return b;
+}
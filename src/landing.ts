@@ -0,0 +1,141 @@
+// ═══════════════════════════════════════════════════════════════
+//  Landing zones — ground targets for lobs and feeds
+// ═══════════════════════════════════════════════════════════════
+//
+//  A ground target is a floor region the ball must come down in instead
+//  of an elevated opening, entered as a polygon in field meters:
+//
+//    x1,y1 x2,y2 x3,y3 …
+//
+//  The solver aims at the zone's centroid with the ball's center at its
+//  radius above the floor (touchdown).  A shot counts when the touchdown
+//  point and the ball's roll-out — rollOut meters further along its
+//  ground track — stay inside the zone; the smallest distance to the
+//  zone's edge along that stretch is the landing margin.  A position that
+//  cannot land on the centroid (too close to it, or rolling out past an
+//  edge) tries aim points spread over the rest of the zone.
+// ═══════════════════════════════════════════════════════════════
+
+import { footprintDistance } from './obstacles';
+import { pieceFromParams } from './gamePiece';
+import type { FieldTarget, Footprint, Params } from './types';
+
+/** Roll-out samples between touchdown and where the ball stops. */
+const ROLL_SAMPLES = 5;
+
+/** Aim points per axis of the grid spread over a zone's bounds. */
+const AIM_GRID = 4;
+
+/** Parse a zone polygon ("x1,y1 x2,y2 …").  Empty if it has fewer than three valid points. */
+export function parseLandingZone(text: string): [number, number][] {
+  const n = text.trim().split(/[\s,;]+/).filter(s => s !== '').map(parseFloat);
+  if (n.length < 6 || n.length % 2 !== 0 || !n.every(isFinite)) return [];
+  const points: [number, number][] = [];
+  for (let i = 0; i < n.length; i += 2) points.push([n[i], n[i + 1]]);
+  return points;
+}
+
+/** Format a zone polygon in the syntax parseLandingZone reads. */
+export function landingZoneToText(points: [number, number][]): string {
+  const f = (v: number) => String(Math.round(v * 1000) / 1000);
+  return points.map(([x, y]) => `${f(x)},${f(y)}`).join(' ');
+}
+
+let lastText = '';
+let lastZone: Footprint | null = null;
+
+/** The landing zone from Params (parsed once per distinct text); null if malformed. */
+export function landingZoneFromParams(p: Params): Footprint | null {
+  if (p.landingZone !== lastText) {
+    lastText = p.landingZone;
+    const points = parseLandingZone(p.landingZone);
+    lastZone = points.length >= 3 ? { shape: 'polygon', points } : null;
+  }
+  return lastZone;
+}
+
+/** Area centroid of a polygon (vertex mean if it is degenerate). */
+function centroid(points: [number, number][]): [number, number] {
+  let a = 0, cx = 0, cy = 0;
+  for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+    const [x1, y1] = points[j], [x2, y2] = points[i];
+    const cross = x1 * y2 - x2 * y1;
+    a += cross;
+    cx += (x1 + x2) * cross;
+    cy += (y1 + y2) * cross;
+  }
+  if (Math.abs(a) < 1e-9) {
+    return [
+      points.reduce((s, q) => s + q[0], 0) / points.length,
+      points.reduce((s, q) => s + q[1], 0) / points.length,
+    ];
+  }
+  return [cx / (3 * a), cy / (3 * a)];
+}
+
+/**
+ * Params aimed at the landing zone for a ground target: the target moves
+ * to the zone's centroid, at ball-center height on the floor.  Hub
+ * targets (and a malformed zone) return p as is.
+ */
+export function withLandingZone(p: Params): Params {
+  if (p.targetType !== 'ground') return p;
+  const zone = landingZoneFromParams(p);
+  if (!zone || zone.shape !== 'polygon') return p;
+  const [x, y] = centroid(zone.points);
+  return { ...p, targetX: x, targetY: y, targetZ: pieceFromParams(p).diameter / 2 };
+}
+
+/**
+ * Margin (m) of a touchdown at field (x, y) inside the zone: the smallest
+ * distance to the zone's edge from there to rollOut further along the
+ * ground-track heading (rad).  Negative when the ball lands or rolls out.
+ */
+export function landingMargin(
+  zone: Footprint, x: number, y: number, heading: number, rollOut: number,
+): number {
+  const ux = Math.cos(heading), uy = Math.sin(heading);
+  let margin = Infinity;
+  for (let i = 0; i <= ROLL_SAMPLES; i++) {
+    const s = rollOut * i / ROLL_SAMPLES;
+    margin = Math.min(margin, -footprintDistance(zone, x + s * ux, y + s * uy));
+  }
+  return margin;
+}
+
+let lastAimKey = '';
+let lastAims: FieldTarget[] = [];
+
+/**
+ * Aim points besides the centroid for a ground target, nearest the
+ * centroid first: an AIM_GRID × AIM_GRID grid over the zone's bounds,
+ * keeping the points inside the zone.  Each is a target at the ball-center
+ * height; empty for hub targets (and a malformed zone).
+ */
+export function zoneAimPoints(p: Params): FieldTarget[] {
+  const zone = p.targetType === 'ground' ? landingZoneFromParams(p) : null;
+  if (!zone || zone.shape !== 'polygon') return [];
+  const key = `${p.landingZone}|${p.targetZ}|${p.alliance}`;
+  if (key === lastAimKey) return lastAims;
+
+  const xs = zone.points.map(q => q[0]), ys = zone.points.map(q => q[1]);
+  const xMin = Math.min(...xs), yMin = Math.min(...ys);
+  const w = Math.max(...xs) - xMin, h = Math.max(...ys) - yMin;
+  const [cx, cy] = centroid(zone.points);
+  const points: [number, number][] = [];
+  for (let i = 0; i < AIM_GRID; i++) {
+    for (let j = 0; j < AIM_GRID; j++) {
+      const x = xMin + (i + 0.5) / AIM_GRID * w, y = yMin + (j + 0.5) / AIM_GRID * h;
+      if (footprintDistance(zone, x, y) < 0) points.push([x, y]);
+    }
+  }
+  points.sort((a, b) => Math.hypot(a[0] - cx, a[1] - cy) - Math.hypot(b[0] - cx, b[1] - cy));
+
+  lastAimKey = key;
+  lastAims = points.map(([x, y]) => ({
+    name: `Zone (${x.toFixed(2)}, ${y.toFixed(2)})`,
+    alliance: p.alliance === 'red' ? 'red' as const : 'blue' as const,
+    x, y, z: p.targetZ,
+  }));
+  return lastAims;
+}
@@ -7,7 +7,11 @@ import './style.css';
 import { state } from './state';
 import { computeHeatmap, computeRangeChart } from './compute';
 import { bindCanvas, computeLayout, render } from './render';
-import { readParams, updateValueDisplays, getViewMode, bindControls } from './controls';
+import {
+  readParams, updateValueDisplays, updateDiagnostics, getViewMode, bindControls, populateGamePieces,
+  applyFieldLayout,
+} from './controls';
+import { activeField } from './field';
 import { bindTooltip } from './tooltip';
 import { bindModal } from './modal';
 import { applyUrlParams, pushStateToUrl, bindCopyLink } from './deeplink';
@@ -19,13 +23,16 @@ function init(): void {
   // Bind modules to the main canvas
   bindCanvas(canvas);
 
-  // Hydrate controls from URL before anything else
+  // Hydrate controls from URL before anything else (game-piece presets
+  // and the field layout first, so linked values override them)
+  populateGamePieces();
+  applyFieldLayout(activeField());
   applyUrlParams();
 
   // Compute initial layout
+  state.currentParams = readParams();
   computeLayout();
   updateValueDisplays();
-  state.currentParams = readParams();
 
   const params = state.currentParams as Params;
 
@@ -35,11 +42,11 @@ function init(): void {
       `${state.rangeChartData.validCount} / ${state.rangeChartData.totalCount} valid`;
   } else {
     state.heatmapData = computeHeatmap(params);
-    const total = state.heatmapData.cols * state.heatmapData.rows;
     document.getElementById('status')!.textContent =
-      `${state.heatmapData.validCount} / ${total} valid`;
+      `${state.heatmapData.validCount} / ${state.heatmapData.reachableCount} valid`;
   }
 
+  updateDiagnostics();
   render();
   pushStateToUrl();
 
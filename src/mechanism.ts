@@ -0,0 +1,96 @@
+// ═══════════════════════════════════════════════════════════════
+//  Mechanism transfer model — exit speed ↔ flywheel RPM,
+//  launch angle ↔ hood setpoint
+// ═══════════════════════════════════════════════════════════════
+//
+//  Flywheel:  v_exit = η · ω · r_eff,   r_eff = D/2 − compression
+//    η folds in everything between wheel surface speed and ball speed.
+//    A single-wheel hooded shooter sits near 0.5 (the ball rolls along
+//    the stationary hood); slip pulls it lower.
+//
+//  Hood:  piecewise-linear calibration table of (launch angle °, setpoint)
+//    pairs, extrapolated linearly past the first / last entry.  With fewer
+//    than two valid entries the setpoint is the launch angle itself.
+// ═══════════════════════════════════════════════════════════════
+
+import { HOOD_MIN_ANGLE, HOOD_MAX_ANGLE } from './constants';
+import type { MechanismModel, Params } from './types';
+
+/**
+ * Parse a hood calibration table such as "5:0, 45:2.4, 85:4.4"
+ * (angle:setpoint pairs separated by commas, semicolons or newlines).
+ * Malformed entries are skipped; the result is sorted by angle.
+ */
+export function parseHoodTable(text: string): [number, number][] {
+  const table: [number, number][] = [];
+  for (const entry of text.split(/[,;\n]/)) {
+    const parts = entry.split(':');
+    if (parts.length !== 2) continue;
+    const angle = parseFloat(parts[0]);
+    const setpoint = parseFloat(parts[1]);
+    if (isFinite(angle) && isFinite(setpoint)) table.push([angle, setpoint]);
+  }
+  return table.sort((a, b) => a[0] - b[0]);
+}
+
+/** Build the mechanism model from Params. */
+export function mechanismFromParams(p: Params): MechanismModel {
+  const hoodTable = parseHoodTable(p.hoodTable);
+  return {
+    wheelRadius: Math.max(0.005, p.wheelDiameter / 2 - p.wheelCompression),
+    efficiency: p.slipEfficiency,
+    hoodTable,
+    hoodUnit: hoodTable.length >= 2 ? (p.hoodUnit.trim() || 'units') : '°',
+  };
+}
+
+/**
+ * Launch angles (deg) the hood reaches: the calibration table's span, or
+ * the angle controls' range without one.
+ */
+export function hoodReach(m: MechanismModel): [number, number] {
+  if (m.hoodTable.length < 2) return [HOOD_MIN_ANGLE, HOOD_MAX_ANGLE];
+  return [m.hoodTable[0][0], m.hoodTable[m.hoodTable.length - 1][0]];
+}
+
+/** Flywheel speed (rpm) needed for a ball exit speed (m/s). */
+export function exitSpeedToRpm(speed: number, m: MechanismModel): number {
+  return speed / (m.efficiency * m.wheelRadius) * 60 / (2 * Math.PI);
+}
+
+/** Ball exit speed (m/s) produced by a flywheel speed (rpm). */
+export function rpmToExitSpeed(rpm: number, m: MechanismModel): number {
+  return rpm * 2 * Math.PI / 60 * m.efficiency * m.wheelRadius;
+}
+
+/** Piecewise-linear lookup in a sorted (x, y) table, extrapolating at the ends. */
+function interpolate(table: [number, number][], x: number, xi: 0 | 1): number {
+  const yi = 1 - xi;
+  let i = 1;
+  while (i < table.length - 1 && x > table[i][xi]) i++;
+  const a = table[i - 1], b = table[i];
+  const span = b[xi] - a[xi];
+  if (Math.abs(span) < 1e-9) return a[yi];
+  return a[yi] + (x - a[xi]) / span * (b[yi] - a[yi]);
+}
+
+/** Hood setpoint for a launch angle (degrees). */
+export function angleToHood(angleDeg: number, m: MechanismModel): number {
+  if (m.hoodTable.length < 2) return angleDeg;
+  return interpolate(m.hoodTable, angleDeg, 0);
+}
+
+/** Format a hood setpoint with its unit (degrees when no table is set). */
+export function formatHood(setpoint: number, unit: string): string {
+  return unit === '\u00B0' ? setpoint.toFixed(1) + '\u00B0' : setpoint.toFixed(2) + ' ' + unit;
+}
+
+/**
+ * Launch angle (degrees) for a hood setpoint.  Assumes the table is
+ * monotonic in setpoint, as any usable hood calibration is.
+ */
+export function hoodToAngle(setpoint: number, m: MechanismModel): number {
+  if (m.hoodTable.length < 2) return setpoint;
+  const bySetpoint = [...m.hoodTable].sort((a, b) => a[1] - b[1]);
+  return interpolate(bySetpoint, setpoint, 1);
+}
@@ -3,14 +3,19 @@
 // ═══════════════════════════════════════════════════════════════
 
 import { state } from './state';
-import { canvasToField } from './render';
-import { computeDetailedShot } from './physics';
+import { canvasToField, inFieldView } from './render';
+import {
+  computeDetailedShot, computePieceComparison,
+  evaluateShotFamilies, evaluateShotFamiliesAtRange, classifyArc, resolveRobotVelocity,
+} from './physics';
+import { findPiece } from './gamePiece';
+import { withTarget } from './field';
 import { getViewMode } from './controls';
 import { renderSideView } from './views/sideView';
 import { renderTopView } from './views/topView';
 import { renderBackView } from './views/backView';
 import { populateShotInfo } from './views/shotInfo';
-import type { DetailedShot, LayoutCache, RangeChartLayout, Params } from './types';
+import type { DetailedShot, RangeChartLayout, Params, ShotFamily, ShotResult } from './types';
 
 // ── Panel renderer lookup ───────────────────────────────────
 
@@ -45,8 +50,18 @@ function collapseExpandedPanel(): void {
   }
 }
 
+/** Attach (or clear) the comparison piece chosen in the modal header. */
+function updateComparison(shot: DetailedShot): void {
+  const name = (document.getElementById('comparePiece') as HTMLSelectElement).value;
+  const piece = name ? findPiece(name) : null;
+  shot.comparison = piece
+    ? computePieceComparison(shot, piece, state.currentParams as Params)
+    : undefined;
+}
+
 function openShotModal(shot: DetailedShot): void {
   state.currentDetailedShot = shot;
+  updateComparison(shot);
   collapseExpandedPanel();
 
   const backdrop = document.getElementById('shot-modal-backdrop')!;
@@ -63,6 +78,70 @@ function closeShotModal(): void {
   collapseExpandedPanel();
   document.getElementById('shot-modal-backdrop')!.style.display = 'none';
   state.currentDetailedShot = null;
+  state.shotFamilies = null;
+}
+
+// ── Trajectory families ─────────────────────────────────────
+
+function familyLabel(f: ShotFamily): string {
+  const band = f.maxSpeed - f.minSpeed < 0.05
+    ? f.minSpeed.toFixed(1)
+    : `${f.minSpeed.toFixed(1)}\u2013${f.maxSpeed.toFixed(1)}`;
+  return `${f.arc === 'high' ? 'High' : 'Low'} arc \u00B7 ${band} m/s`;
+}
+
+/**
+ * Families at the clicked position, with the map's own solution selected.
+ * If the scan did not reproduce the map's solution it is added as its own
+ * family so the modal always opens on what was clicked.
+ */
+function collectFamilies(
+  families: ShotFamily[], clicked: ShotResult, params: Params,
+): { families: ShotFamily[]; index: number } {
+  const index = families.findIndex(f =>
+    Math.abs(f.result.shotSpeed - clicked.shotSpeed) < 0.6
+    && Math.abs(f.result.hoodAngleDeg - clicked.hoodAngleDeg) < 3);
+  if (index >= 0) {
+    families[index] = { ...families[index], result: clicked };
+    return { families, index };
+  }
+  const own: ShotFamily = {
+    arc: classifyArc(clicked, params), minSpeed: clicked.shotSpeed, maxSpeed: clicked.shotSpeed, result: clicked,
+  };
+  return { families: [own, ...families], index: 0 };
+}
+
+/** Open the modal on one family, overlaying the others' arcs. */
+function showFamily(index: number): void {
+  const sf = state.shotFamilies;
+  if (!sf) return;
+  sf.index = index;
+  const params = sf.params;
+
+  const detailed = computeDetailedShot(sf.families[index].result, sf.tangentialVelo, sf.radialVelo, params);
+  detailed.alternates = sf.families
+    .filter((_, i) => i !== index)
+    .map(f => ({
+      label: `${f.arc} ${f.result.shotSpeed.toFixed(1)} m/s`,
+      trajectory: computeDetailedShot(f.result, sf.tangentialVelo, sf.radialVelo, params).trajectory,
+    }));
+  // Range-chart positions are virtual — no field obstacles there
+  if (getViewMode() === 'range') {
+    detailed.obstacles = [];
+    detailed.overheadZones = [];
+  }
+
+  const bar = document.getElementById('shot-modal-families')!;
+  const buttons = sf.families.length > 1 ? sf.families.map((f, i) => {
+    const b = document.createElement('button');
+    b.textContent = familyLabel(f);
+    if (i === index) b.classList.add('active');
+    b.addEventListener('click', () => showFamily(i));
+    return b;
+  }) : [];
+  bar.replaceChildren(...buttons);
+
+  openShotModal(detailed);
 }
 
 function expandPanel(panelEl: Element): void {
@@ -106,6 +185,15 @@ export function bindModal(mainCanvas: HTMLCanvasElement): void {
     if ((e.target as Element).id === 'shot-modal-backdrop') closeShotModal();
   });
   document.getElementById('shot-modal-close')!.addEventListener('click', closeShotModal);
+
+  // Comparison piece → recompute overlay and redraw
+  document.getElementById('comparePiece')!.addEventListener('change', () => {
+    const shot = state.currentDetailedShot;
+    if (!shot) return;
+    updateComparison(shot);
+    populateShotInfo(shot);
+    requestAnimationFrame(() => renderAllPanels(shot));
+  });
   document.addEventListener('keydown', (e) => {
     if (e.key === 'Escape') {
       const expanded = document.querySelector('#shot-modal-grid .shot-panel.expanded');
@@ -122,9 +210,10 @@ export function bindModal(mainCanvas: HTMLCanvasElement): void {
     const rect = mainCanvas.parentElement!.getBoundingClientRect();
     const cx = e.clientX - rect.left;
     const cy = e.clientY - rect.top;
-    const params = state.currentParams as Params;
+    let params = state.currentParams as Params;
 
     let result = null;
+    let families: ShotFamily[] = [];
     let tangentialVelo = params.tangentialVelo;
     let radialVelo = params.radialVelo;
 
@@ -149,25 +238,31 @@ export function bindModal(mainCanvas: HTMLCanvasElement): void {
       result = rcd.panels[hitPanel.ri][ti][di];
       tangentialVelo = tangentials[ti];
       radialVelo = radials[hitPanel.ri];
+      if (result) families = evaluateShotFamiliesAtRange(distances[di], tangentialVelo, radialVelo, params);
 
     } else {
-      const lc = state.layoutCache as LayoutCache;
       const [fx, fy] = canvasToField(cx, cy);
-      if (fx < 0 || fx > (lc.displayFieldLength || 16.54) || fy < 0 || fy > 8.07) return;
+      if (!inFieldView(fx, fy)) return;
 
       const hd = state.heatmapData;
       if (hd) {
-        const col = Math.floor(fx / hd.res);
+        const col = Math.floor((fx - hd.x0) / hd.res);
         const row = Math.floor(fy / hd.res);
         if (row >= 0 && row < hd.rows && col >= 0 && col < hd.cols) {
+          const cellX = hd.x0 + (col + 0.5) * hd.res, cellY = (row + 0.5) * hd.res;
           result = hd.results[row][col];
+          if (result) params = withTarget(params, result.target);
+          const cp = resolveRobotVelocity(cellX, cellY, params);
+          tangentialVelo = cp.tangentialVelo;
+          radialVelo = cp.radialVelo;
+          if (result) families = evaluateShotFamilies(cellX, cellY, cp);
         }
       }
     }
 
     if (!result) return;
 
-    const detailed = computeDetailedShot(result, tangentialVelo, radialVelo, params);
-    openShotModal(detailed);
+    state.shotFamilies = { ...collectFamilies(families, result, params), tangentialVelo, radialVelo, params };
+    showFamily(state.shotFamilies.index);
   });
 }
@@ -0,0 +1,110 @@
+// ═══════════════════════════════════════════════════════════════
+//  Monte Carlo make probability
+// ═══════════════════════════════════════════════════════════════
+//
+//  A solved ShotResult is a setpoint; the real shot scatters around it.
+//  Each sample perturbs the exit speed, hood angle, turret angle and the
+//  chassis velocity (tangential and radial independently) with zero-mean
+//  Gaussian noise, flies the ball, and counts it as a make when it drops
+//  through the opening without touching the rim (traceRimClearance ≥ 0)
+//  or any field obstacle or overhead zone on the way.  For a ground
+//  target a make is a touchdown and roll-out inside the landing zone.
+//
+//  Samples use a small seeded generator so a cell's probability is
+//  repeatable between recomputes and does not flicker.
+// ═══════════════════════════════════════════════════════════════
+
+import {
+  traceRimClearance, traceObstacleClearance, traceLanding, dragFromParams,
+  releaseVelocity, releaseFrame, shooterVelocity,
+} from './physics';
+import { landingZoneFromParams, landingMargin } from './landing';
+import { hubFromParams } from './hub';
+import { obstaclesFromParams, overheadZonesFromParams, obstaclesNearSegment } from './obstacles';
+import type { Params, ShotResult } from './types';
+
+/** mulberry32 — tiny 32-bit seeded PRNG returning floats in [0, 1). */
+function seededRandom(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6D2B79F5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** Standard normal sampler (Box–Muller) over a uniform generator. */
+function gaussian(rand: () => number): () => number {
+  let spare: number | null = null;
+  return () => {
+    if (spare !== null) {
+      const s = spare;
+      spare = null;
+      return s;
+    }
+    const u = 1 - rand(); // (0, 1] — keeps log finite
+    const v = rand();
+    const r = Math.sqrt(-2 * Math.log(u));
+    spare = r * Math.sin(2 * Math.PI * v);
+    return r * Math.cos(2 * Math.PI * v);
+  };
+}
+
+/**
+ * Fraction of p.mcSamples perturbed shots around a solved result that go
+ * in.  tangentialVelo / radialVelo are the chassis velocity at the shoot
+ * decision (as passed to computeDetailedShot); seed selects the sample set.
+ */
+export function hitProbability(
+  result: ShotResult, tangentialVelo: number, radialVelo: number, p: Params, seed: number,
+): number {
+  const n = Math.max(1, Math.round(p.mcSamples));
+  const normal = gaussian(seededRandom(seed));
+  const hub = hubFromParams(p);
+  const zone = p.targetType === 'ground' ? landingZoneFromParams(p) : null;
+  const drag = dragFromParams(p);
+  const rel = releaseVelocity(result, tangentialVelo, radialVelo, p);
+  const frame = releaseFrame(result, p);
+  const launchX = p.targetX - result.range * Math.cos(result.bearing);
+  const launchY = p.targetY - result.range * Math.sin(result.bearing);
+  const obstacles = obstaclesNearSegment(
+    obstaclesFromParams(p), launchX, launchY, p.targetX, p.targetY, drag.radius + 1);
+  const overheads = obstaclesNearSegment(
+    overheadZonesFromParams(p), launchX, launchY, p.targetX, p.targetY, drag.radius + 1);
+
+  const sigmaAngle = p.sigmaAngle * Math.PI / 180;
+  const sigmaTurret = p.sigmaTurret * Math.PI / 180;
+  const angle = result.hoodAngleDeg * Math.PI / 180;
+
+  let makes = 0;
+  for (let i = 0; i < n; i++) {
+    const speed = result.shotSpeed + p.sigmaSpeed * normal();
+    const theta = angle + sigmaAngle * normal();
+    const phi = result.turretAdjRad + sigmaTurret * normal();
+    const sv = shooterVelocity(
+      rel.tangentialVelo + p.sigmaVelocity * normal(),
+      rel.radialVelo + p.sigmaVelocity * normal(), p, frame.heading, frame.bearing,
+    );
+
+    const hSpeed = speed * Math.cos(theta);
+    const vx = hSpeed * Math.cos(phi) + sv.radial;
+    const vy = hSpeed * Math.sin(phi) + sv.tangential;
+    const vz = speed * Math.sin(theta);
+    if (zone) {
+      const touchdown = traceLanding(vx, vy, vz, phi, result.bearing, launchX, launchY, result.launchZ, drag);
+      if (!touchdown || landingMargin(zone, touchdown.x, touchdown.y, touchdown.heading, p.rollOut) < 0) continue;
+    } else {
+      const clearance = traceRimClearance(
+        vx, vy, vz, phi, result.range, result.bearing, result.launchZ, hub, drag,
+      );
+      if (clearance < 0) continue;
+    }
+    if (obstacles.length + overheads.length > 0 && traceObstacleClearance(
+      vx, vy, vz, phi, result.bearing, launchX, launchY, result.launchZ, p.targetZ, obstacles, overheads, drag,
+    ) < 0) continue;
+    makes++;
+  }
+  return makes / n;
+}
@@ -0,0 +1,200 @@
+// ═══════════════════════════════════════════════════════════════
+//  Field obstacles — towers, trusses, shrouds between robot and hub,
+//  and overhead structures (trench runs, bars)
+// ═══════════════════════════════════════════════════════════════
+//
+//  Each obstacle is a footprint in field coordinates extruded from the
+//  floor up to a height: an axis-aligned box, a vertical cylinder or a
+//  polygon.  They are entered as text, one per line (or ';'-separated):
+//
+//    box  x1 y1 x2 y2 height        corners of the footprint
+//    cyl  x y radius height
+//    poly height x1,y1 x2,y2 x3,y3 …
+//
+//  Overhead zones use the same footprints, but the height is the
+//  clearance under the structure: everything above it is solid.
+//
+//  Distances are signed like the hub's: positive outside the solid.
+// ═══════════════════════════════════════════════════════════════
+
+import type { Footprint, Obstacle, Params } from './types';
+
+/**
+ * Parse an obstacle list (see the header for the syntax).  Malformed
+ * entries and non-positive sizes are skipped.
+ */
+export function parseObstacles(text: string): Obstacle[] {
+  const obstacles: Obstacle[] = [];
+  for (const entry of text.split(/[;\n]/)) {
+    const [kind, ...rest] = entry.trim().toLowerCase().split(/[\s,]+/);
+    const n = rest.map(parseFloat);
+    if (!n.every(isFinite)) continue;
+
+    if (kind === 'box' && n.length === 5 && n[4] > 0) {
+      obstacles.push({
+        shape: 'box',
+        xMin: Math.min(n[0], n[2]), yMin: Math.min(n[1], n[3]),
+        xMax: Math.max(n[0], n[2]), yMax: Math.max(n[1], n[3]),
+        height: n[4],
+      });
+    } else if ((kind === 'cyl' || kind === 'cylinder') && n.length === 4 && n[2] > 0 && n[3] > 0) {
+      obstacles.push({ shape: 'cylinder', x: n[0], y: n[1], radius: n[2], height: n[3] });
+    } else if ((kind === 'poly' || kind === 'polygon') && n.length >= 7 && n.length % 2 === 1 && n[0] > 0) {
+      const points: [number, number][] = [];
+      for (let i = 1; i < n.length; i += 2) points.push([n[i], n[i + 1]]);
+      obstacles.push({ shape: 'polygon', points, height: n[0] });
+    }
+  }
+  return obstacles;
+}
+
+/** Format obstacles in the text syntax parseObstacles reads, one per line. */
+export function obstaclesToText(obstacles: Obstacle[]): string {
+  const f = (v: number) => String(Math.round(v * 1000) / 1000);
+  return obstacles.map(o => {
+    if (o.shape === 'box') return `box ${f(o.xMin)} ${f(o.yMin)} ${f(o.xMax)} ${f(o.yMax)} ${f(o.height)}`;
+    if (o.shape === 'cylinder') return `cyl ${f(o.x)} ${f(o.y)} ${f(o.radius)} ${f(o.height)}`;
+    return `poly ${f(o.height)} ` + o.points.map(([x, y]) => `${f(x)},${f(y)}`).join(' ');
+  }).join('\n');
+}
+
+/** Memoized parseObstacles — the solver asks once per candidate shot. */
+function cachedParser(): (text: string) => Obstacle[] {
+  let lastText = '';
+  let last: Obstacle[] = [];
+  return text => {
+    if (text !== lastText) {
+      lastText = text;
+      last = parseObstacles(text);
+    }
+    return last;
+  };
+}
+
+const parseFloorObstacles = cachedParser();
+const parseOverheadZones = cachedParser();
+
+/** Obstacles from Params (parsed once per distinct list). */
+export function obstaclesFromParams(p: Params): Obstacle[] {
+  return parseFloorObstacles(p.obstacles);
+}
+
+/** Overhead zones from Params — height is the clearance underneath. */
+export function overheadZonesFromParams(p: Params): Obstacle[] {
+  return parseOverheadZones(p.overheadZones);
+}
+
+/** Signed in-plane distance (m) from (x, y) to a footprint.  Negative inside. */
+export function footprintDistance(o: Footprint, x: number, y: number): number {
+  if (o.shape === 'cylinder') return Math.hypot(x - o.x, y - o.y) - o.radius;
+
+  if (o.shape === 'box') {
+    const dx = Math.max(o.xMin - x, x - o.xMax);
+    const dy = Math.max(o.yMin - y, y - o.yMax);
+    if (dx <= 0 && dy <= 0) return Math.max(dx, dy);
+    return Math.hypot(Math.max(dx, 0), Math.max(dy, 0));
+  }
+
+  // Polygon: nearest edge, signed by an even-odd crossing test
+  let minDist = Infinity;
+  let inside = false;
+  const pts = o.points;
+  for (let i = 0, j = pts.length - 1; i < pts.length; j = i++) {
+    const [x1, y1] = pts[j], [x2, y2] = pts[i];
+    const ex = x2 - x1, ey = y2 - y1;
+    const len2 = ex * ex + ey * ey;
+    const t = len2 > 0 ? Math.max(0, Math.min(1, ((x - x1) * ex + (y - y1) * ey) / len2)) : 0;
+    minDist = Math.min(minDist, Math.hypot(x - x1 - t * ex, y - y1 - t * ey));
+    if ((y1 > y) !== (y2 > y) && x < x1 + (y - y1) / (y2 - y1) * ex) inside = !inside;
+  }
+  return inside ? -minDist : minDist;
+}
+
+/**
+ * Distance to an extruded solid from its footprint distance d and the
+ * height distance dz past its horizontal face.  Negative inside.
+ */
+function extrudedDistance(d: number, dz: number): number {
+  if (d > 0) return dz > 0 ? Math.hypot(d, dz) : d;
+  return dz > 0 ? dz : Math.max(d, dz);
+}
+
+/**
+ * Distance (m) from a point to the obstacle solid — beside it, above its
+ * top, or to its top edge.  Negative inside.
+ */
+export function obstacleDistance(o: Obstacle, x: number, y: number, z: number): number {
+  return extrudedDistance(footprintDistance(o, x, y), z - o.height);
+}
+
+/** Distance (m) from a point to an overhead zone's solid (above its height).  Negative inside. */
+export function overheadDistance(o: Obstacle, x: number, y: number, z: number): number {
+  return extrudedDistance(footprintDistance(o, x, y), o.height - z);
+}
+
+/** Axis-aligned bounds of a footprint. */
+function footprintBounds(o: Footprint): { xMin: number; yMin: number; xMax: number; yMax: number } {
+  if (o.shape === 'box') return o;
+  if (o.shape === 'cylinder') {
+    return { xMin: o.x - o.radius, yMin: o.y - o.radius, xMax: o.x + o.radius, yMax: o.y + o.radius };
+  }
+  const xs = o.points.map(q => q[0]), ys = o.points.map(q => q[1]);
+  return { xMin: Math.min(...xs), yMin: Math.min(...ys), xMax: Math.max(...xs), yMax: Math.max(...ys) };
+}
+
+/**
+ * Obstacles that may come within margin (m) of the ground segment
+ * (x0, y0) → (x1, y1).  Conservative: tests the footprint's bounding
+ * circle, so a few distant corners slip through.
+ */
+export function obstaclesNearSegment(
+  obstacles: Obstacle[], x0: number, y0: number, x1: number, y1: number, margin: number,
+): Obstacle[] {
+  const ex = x1 - x0, ey = y1 - y0;
+  const len2 = ex * ex + ey * ey;
+  return obstacles.filter(o => {
+    const b = footprintBounds(o);
+    const cx = (b.xMin + b.xMax) / 2, cy = (b.yMin + b.yMax) / 2;
+    const t = len2 > 0 ? Math.max(0, Math.min(1, ((cx - x0) * ex + (cy - y0) * ey) / len2)) : 0;
+    const dist = Math.hypot(cx - x0 - t * ex, cy - y0 - t * ey);
+    return dist - Math.hypot(b.xMax - b.xMin, b.yMax - b.yMin) / 2 <= margin;
+  });
+}
+
+/** Footprint outline as a closed polygon (cylinders as a 32-gon), for drawing. */
+export function obstacleOutline(o: Footprint): [number, number][] {
+  if (o.shape === 'box') {
+    return [[o.xMin, o.yMin], [o.xMax, o.yMin], [o.xMax, o.yMax], [o.xMin, o.yMax]];
+  }
+  if (o.shape === 'cylinder') {
+    return Array.from({ length: 32 }, (_, i): [number, number] => [
+      o.x + o.radius * Math.cos(i * Math.PI / 16),
+      o.y + o.radius * Math.sin(i * Math.PI / 16),
+    ]);
+  }
+  return o.points;
+}
+
+/**
+ * Stretches of a ground track that pass over a footprint, as [start, end]
+ * distances along the track.  track holds (distance, field x, field y)
+ * samples; crossings are interpolated between samples.
+ */
+export function groundTrackSpans(o: Footprint, track: [number, number, number][]): [number, number][] {
+  const spans: [number, number][] = [];
+  let start: number | null = null;
+  let prevS = 0, prevD = Infinity;
+  for (const [s, x, y] of track) {
+    const d = footprintDistance(o, x, y);
+    const cross = prevD !== Infinity ? prevS + (s - prevS) * prevD / (prevD - d) : s;
+    if (d < 0 && start === null) start = cross;
+    if (d >= 0 && start !== null) {
+      spans.push([start, cross]);
+      start = null;
+    }
+    prevS = s;
+    prevD = d;
+  }
+  if (start !== null) spans.push([start, prevS]);
+  return spans;
+}
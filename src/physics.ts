@@ -2,14 +2,91 @@
 //  Physics engine — ported from ShotCalculator.java
 // ═══════════════════════════════════════════════════════════════
 
-import { GRAVITY, DRAG_K } from './constants';
-import type { ShotResult, SweepResult, RefineResult, Params, DragConfig } from './types';
+import { GRAVITY, BALL_DIAMETER, SPIN_DECAY_RATE } from './constants';
+import { airDensityFromParams } from './environment';
+import { pieceFromParams } from './gamePiece';
+import { hubFromParams, openingSignedDistance, hubSurfaceDistance } from './hub';
+import {
+  obstaclesFromParams, overheadZonesFromParams, obstaclesNearSegment, obstacleDistance, overheadDistance,
+} from './obstacles';
+import { mechanismFromParams, exitSpeedToRpm, angleToHood, hoodReach } from './mechanism';
+import { integrate, locateEvent } from './integrator';
+import { landingZoneFromParams, landingMargin } from './landing';
+import { chassisHeading } from './footprint';
+import { turretAngle, turretOverrun } from './turret';
+import { isRejection, closerRejection } from './rejection';
+import { shotTolerance, landingSpread } from './sensitivity';
+import type { Derivative } from './integrator';
+import type {
+  ShotResult, SweepResult, RefineResult, Params, DragConfig, HubGeometry, GamePiece, PieceComparison,
+  ShotJacobian, ShotFamily, Obstacle, ShotRejection, ShotAlternatives,
+} from './types';
 
 // ── Drag helpers ─────────────────────────────────────────────
 
+/** Aerodynamics-free config — the closed-form vacuum model. */
+const NO_DRAG: DragConfig = {
+  enabled: false, k: 0, spin: 0, liftK: 0, radius: BALL_DIAMETER / 2, spinDecay: 0, tol: 1e-6,
+};
+
 /** Build a DragConfig from Params (convenience). */
 export function dragFromParams(p: Params): DragConfig {
-  return { enabled: p.dragEnabled, k: DRAG_K };
+  return dragForPiece(p, pieceFromParams(p));
+}
+
+/**
+ * DragConfig for a game piece in the Params environment:
+ *   drag k = ½ρ·Cd·A / m,  lift constant = ½ρ·A / m   (1/m)
+ * with ρ the environment's air density and A the piece's cross-section.
+ */
+function dragForPiece(p: Params, piece: GamePiece): DragConfig {
+  const rho = airDensityFromParams(p);
+  const area = Math.PI * (piece.diameter / 2) ** 2;
+  return {
+    enabled: p.dragEnabled,
+    k: 0.5 * rho * piece.dragCoefficient * area / piece.mass,
+    spin: p.spinRpm * 2 * Math.PI / 60,
+    liftK: 0.5 * rho * area / piece.mass,
+    radius: piece.diameter / 2,
+    spinDecay: SPIN_DECAY_RATE,
+    tol: p.integratorTol,
+  };
+}
+
+/** True when the trajectory must be numerically integrated (drag or spin active). */
+function isIntegrated(drag: DragConfig): boolean {
+  return drag.enabled || drag.spin > 0;
+}
+
+/**
+ * Acceleration on the ball: gravity, quadratic drag and Magnus lift.
+ *
+ * Drag is  −k|v| · v⃗  (only when drag.enabled).  Magnus lift is
+ * ½ρA/m · C_L(S) · |v| · (ω̂ × v⃗), with spin ratio S = rω/|v| and the
+ * Sawicki lift curve C_L = S / (2S + 1).  Backspin decays as ω₀·e^(−λt).
+ *
+ * (ax, ay) is the horizontal spin axis — perpendicular to the shooter
+ * heading, oriented so that backspin lifts the ball.
+ */
+function accel(
+  vx: number, vy: number, vz: number, t: number,
+  drag: DragConfig, ax: number, ay: number,
+): [number, number, number] {
+  const speed = Math.sqrt(vx * vx + vy * vy + vz * vz);
+  const d = drag.enabled ? drag.k * speed : 0; // k·|v|
+  let mx = 0, my = 0, mz = 0;
+
+  if (drag.spin > 0 && speed > 1e-6) {
+    const omega = drag.spin * Math.exp(-drag.spinDecay * t);
+    const S = drag.radius * omega / speed;
+    const m = drag.liftK * (S / (2 * S + 1)) * speed;
+    // ω̂ × v⃗  with ω̂ = (ax, ay, 0)
+    mx = m * (ay * vz);
+    my = m * (-ax * vz);
+    mz = m * (ax * vy - ay * vx);
+  }
+
+  return [-d * vx + mx, -d * vy + my, -GRAVITY - d * vz + mz];
 }
 
 /** Result of a numerical trajectory simulation to the target range. */
@@ -24,109 +101,241 @@ interface SimResult {
 }
 
 /**
- * Numerically integrate a 3-D trajectory with quadratic drag using RK4.
+ * Equations of motion for the state [x, y, z, vx, vy, vz], for the shared
+ * adaptive integrator.  phi is the shooter heading relative to the line of
+ * fire, which fixes the backspin axis — see accel().
+ */
+function ballDerivative(drag: DragConfig, phi: number): Derivative {
+  const ax = Math.sin(phi), ay = -Math.cos(phi);
+  return (t, y, out) => {
+    const [dvx, dvy, dvz] = accel(y[3], y[4], y[5], t, drag, ax, ay);
+    out[0] = y[3];
+    out[1] = y[4];
+    out[2] = y[5];
+    out[3] = dvx;
+    out[4] = dvy;
+    out[5] = dvz;
+  };
+}
+
+/**
+ * Numerically integrate a 3-D trajectory with quadratic drag and Magnus
+ * lift (adaptive Dormand–Prince, tolerance drag.tol).
  *
  * State: (x, y, z, vx, vy, vz)  — z is height relative to launch point.
- * Forces: gravity (0, 0, −g) and drag  −k|v| · v⃗.
+ * Forces: see accel().  phi is the shooter heading relative to the line
+ * of fire, which fixes the backspin axis.
  *
- * Stops when x ≥ range and linearly interpolates to exact range.
- * Returns null if the ball hits the ground (z < −shooterZ) or times out.
+ * Stops at the x = range event, located on the step's dense output.
+ * Returns null if the ball hits the ground (z < −shooterZ) first or times out.
  */
 function simulateToRange(
-  vx0: number, vy0: number, vz0: number,
-  range: number, shooterZ: number, k: number,
+  vx0: number, vy0: number, vz0: number, phi: number,
+  range: number, shooterZ: number, drag: DragConfig,
 ): SimResult | null {
-  const DT = 0.002;   // 2 ms integration step
   const MAX_T = 5.0;  // safety cap
 
-  let x = 0, y = 0, z = 0;
-  let vx = vx0, vy = vy0, vz = vz0;
-  let t = 0;
   let apexZ = 0;
+  let hit: SimResult | null = null;
+
+  integrate(ballDerivative(drag, phi), [0, 0, 0, vx0, vy0, vz0], MAX_T, drag.tol, step => {
+    const tRange = locateEvent(step, y => y[0] - range);
+    const tFloor = locateEvent(step, y => -shooterZ - y[2]);
+    const tEnd = tRange ?? step.t1;
+
+    // Apex inside this step (vz falls through zero)
+    const tApex = locateEvent(step, y => -y[5]);
+    if (tApex !== null && tApex <= tEnd) apexZ = Math.max(apexZ, step.at(tApex)[2]);
+
+    if (tFloor !== null && (tRange === null || tFloor < tRange)) return true;
+
+    if (tRange !== null) {
+      const [, y, z, vx, vy, vz] = step.at(tRange);
+      hit = { z, y, t: tRange, vx, vy, vz, apexZ: Math.max(apexZ, z) };
+      return true;
+    }
+
+    apexZ = Math.max(apexZ, step.y1[2]);
+    return false;
+  });
+
+  return hit; // null if the ball landed short or timed out
+}
+
+/**
+ * Trace the ball (with its real radius) past the hub until its center drops
+ * through the opening plane, and return the smallest clearance (m) between
+ * the ball surface and any hub surface along the way.  Negative means the
+ * ball touches the rim or funnel wall, or comes down outside the opening;
+ * -Infinity means it hits the floor before reaching the opening plane.
+ *
+ * Coordinates are in the shot frame (x along the line of fire, y lateral,
+ * hub center at x = range); bearing rotates offsets into field axes so a
+ * hexagonal opening is oriented correctly.
+ */
+export function traceRimClearance(
+  vx0: number, vy0: number, vz0: number, phi: number,
+  range: number, bearing: number, shooterZ: number,
+  hub: HubGeometry, drag: DragConfig,
+): number {
+  const SAMPLE_DT = 0.002; // finest clearance sampling interval on the dense output
+  const MAX_T = 5.0;
+  const cosB = Math.cos(bearing), sinB = Math.sin(bearing);
+
+  // Clearance of the ball at shot-frame position (x, y, absolute z)
+  const clearanceAt = (x: number, y: number, z: number): number => {
+    const ox = x - range;
+    const s0 = openingSignedDistance(hub, ox * cosB - y * sinB, ox * sinB + y * cosB);
+    return hubSurfaceDistance(hub, s0, z) - drag.radius;
+  };
+
+  let minClearance = clearanceAt(0, 0, shooterZ);
+  let result = -Infinity;
+  let nextSample = SAMPLE_DT;
+
+  integrate(ballDerivative(drag, phi), [0, 0, shooterZ, vx0, vy0, vz0], MAX_T, drag.tol, step => {
+    // Descending through the opening plane, or hitting the floor
+    const tCross = locateEvent(step, y => hub.z - y[2]);
+    const tFloor = locateEvent(step, y => -y[2]);
+    const tEnd = Math.min(tCross ?? Infinity, tFloor ?? Infinity, step.t1);
+
+    while (nextSample < tEnd) {
+      const [x, y, z, vx, vy, vz] = step.at(nextSample);
+      const c = clearanceAt(x, y, z);
+      minClearance = Math.min(minClearance, c);
+      // Clearance shrinks no faster than the ball moves — sample sparsely
+      // while far from the hub, every SAMPLE_DT once close
+      nextSample += Math.max(SAMPLE_DT, 0.5 * c / Math.hypot(vx, vy, vz));
+    }
+
+    if (tCross !== null && tCross === tEnd) {
+      // Final check at the crossing
+      const [x, y] = step.at(tCross);
+      result = Math.min(minClearance, clearanceAt(x, y, hub.z));
+      return true;
+    }
+    return tFloor !== null; // hit the floor without entering
+  });
+
+  return result;
+}
 
-  // Previous step values for interpolation
-  let px = 0, py = 0, pz = 0, pvx = vx, pvy = vy, pvz = vz, pt = 0, pApexZ = 0;
-
-  // Derivative evaluation: returns [dx,dy,dz,dvx,dvy,dvz]
-  const deriv = (
-    _vx: number, _vy: number, _vz: number,
-  ): [number, number, number, number, number, number] => {
-    const speed = Math.sqrt(_vx * _vx + _vy * _vy + _vz * _vz);
-    const drag = k * speed; // k·|v|
-    return [
-      _vx, _vy, _vz,
-      -drag * _vx,
-      -drag * _vy,
-      -GRAVITY - drag * _vz,
-    ];
+/**
+ * Trace the ball (with its real radius) from launch until its center drops
+ * through the opening plane and return the smallest clearance (m) to any
+ * of the obstacles or overhead zones.  Negative means the ball clips one.
+ *
+ * The shot frame (x along bearing, y lateral) is placed on the field at
+ * the exit point (launchX, launchY) to test against field coordinates.
+ */
+export function traceObstacleClearance(
+  vx0: number, vy0: number, vz0: number, phi: number,
+  bearing: number, launchX: number, launchY: number, shooterZ: number,
+  hubZ: number, obstacles: Obstacle[], overheads: Obstacle[], drag: DragConfig,
+): number {
+  const SAMPLE_DT = 0.002;
+  const MAX_T = 5.0;
+  const cosB = Math.cos(bearing), sinB = Math.sin(bearing);
+
+  const clearanceAt = (x: number, y: number, z: number): number => {
+    const fx = launchX + x * cosB - y * sinB;
+    const fy = launchY + x * sinB + y * cosB;
+    let d = Infinity;
+    for (const o of obstacles) d = Math.min(d, obstacleDistance(o, fx, fy, z));
+    for (const o of overheads) d = Math.min(d, overheadDistance(o, fx, fy, z));
+    return d - drag.radius;
   };
 
-  while (t < MAX_T) {
-    // Save previous state for interpolation
-    px = x; py = y; pz = z;
-    pvx = vx; pvy = vy; pvz = vz;
-    pt = t; pApexZ = apexZ;
-
-    // ── RK4 step ────────────────────────────────────────────
-    const [dx1, dy1, dz1, dvx1, dvy1, dvz1] = deriv(vx, vy, vz);
-
-    const hvx2 = vx + dvx1 * DT / 2;
-    const hvy2 = vy + dvy1 * DT / 2;
-    const hvz2 = vz + dvz1 * DT / 2;
-    const [dx2, dy2, dz2, dvx2, dvy2, dvz2] = deriv(hvx2, hvy2, hvz2);
-
-    const hvx3 = vx + dvx2 * DT / 2;
-    const hvy3 = vy + dvy2 * DT / 2;
-    const hvz3 = vz + dvz2 * DT / 2;
-    const [dx3, dy3, dz3, dvx3, dvy3, dvz3] = deriv(hvx3, hvy3, hvz3);
-
-    const fvx4 = vx + dvx3 * DT;
-    const fvy4 = vy + dvy3 * DT;
-    const fvz4 = vz + dvz3 * DT;
-    const [dx4, dy4, dz4, dvx4, dvy4, dvz4] = deriv(fvx4, fvy4, fvz4);
-
-    x  += DT / 6 * (dx1  + 2 * dx2  + 2 * dx3  + dx4);
-    y  += DT / 6 * (dy1  + 2 * dy2  + 2 * dy3  + dy4);
-    z  += DT / 6 * (dz1  + 2 * dz2  + 2 * dz3  + dz4);
-    vx += DT / 6 * (dvx1 + 2 * dvx2 + 2 * dvx3 + dvx4);
-    vy += DT / 6 * (dvy1 + 2 * dvy2 + 2 * dvy3 + dvy4);
-    vz += DT / 6 * (dvz1 + 2 * dvz2 + 2 * dvz3 + dvz4);
-    t  += DT;
-
-    if (z > apexZ) apexZ = z;
-
-    // Ground check (z=0 is launch height, ground is at -shooterZ)
-    if (z < -shooterZ) return null;
-
-    // Crossed the target range — interpolate
-    if (x >= range) {
-      // Linear interpolation fraction within this step
-      const frac = (px === x) ? 0 : (range - px) / (x - px);
-      return {
-        z:  pz + frac * (z - pz),
-        y:  py + frac * (y - py),
-        t:  pt + frac * DT,
-        vx: pvx + frac * (vx - pvx),
-        vy: pvy + frac * (vy - pvy),
-        vz: pvz + frac * (vz - pvz),
-        apexZ: Math.max(pApexZ, pz + frac * (z - pz)),
-      };
+  let minClearance = clearanceAt(0, 0, shooterZ);
+  let nextSample = SAMPLE_DT;
+
+  integrate(ballDerivative(drag, phi), [0, 0, shooterZ, vx0, vy0, vz0], MAX_T, drag.tol, step => {
+    const tCross = locateEvent(step, y => hubZ - y[2]);
+    const tFloor = locateEvent(step, y => -y[2]);
+    const tEnd = Math.min(tCross ?? Infinity, tFloor ?? Infinity, step.t1);
+
+    while (nextSample < tEnd) {
+      const [x, y, z, vx, vy, vz] = step.at(nextSample);
+      const c = clearanceAt(x, y, z);
+      minClearance = Math.min(minClearance, c);
+      if (c < 0) return true;
+      nextSample += Math.max(SAMPLE_DT, 0.5 * c / Math.hypot(vx, vy, vz));
     }
-  }
+    return tEnd < step.t1;
+  });
+
+  return minClearance;
+}
+
+/**
+ * Fly the ball from launch until its center comes down to one radius
+ * above the floor and return that touchdown point in field coordinates,
+ * with the heading (rad) of its ground track there.  The shot frame is
+ * placed on the field at the exit point as in traceObstacleClearance.
+ * Null if the ball is still in the air after MAX_T.
+ */
+export function traceLanding(
+  vx0: number, vy0: number, vz0: number, phi: number,
+  bearing: number, launchX: number, launchY: number, shooterZ: number, drag: DragConfig,
+): { x: number; y: number; heading: number } | null {
+  const MAX_T = 5.0;
+  const cosB = Math.cos(bearing), sinB = Math.sin(bearing);
+  let touchdown: { x: number; y: number; heading: number } | null = null;
+
+  integrate(ballDerivative(drag, phi), [0, 0, shooterZ, vx0, vy0, vz0], MAX_T, drag.tol, step => {
+    const tDown = locateEvent(step, y => drag.radius - y[2]);
+    if (tDown === null) return false;
+    const [x, y, , vx, vy] = step.at(tDown);
+    touchdown = {
+      x: launchX + x * cosB - y * sinB,
+      y: launchY + x * sinB + y * cosB,
+      heading: bearing + Math.atan2(vy, vx),
+    };
+    return true;
+  });
+
+  return touchdown;
+}
+
+/** Highest apex (m) a shot may reach: the ceiling, and the apex cap for ground targets. */
+function apexLimit(p: Params): number {
+  return p.targetType === 'ground' ? Math.min(p.ceilingHeight, p.maxApex) : p.ceilingHeight;
+}
 
-  return null; // timed out — ball never reached range
+/**
+ * Preference score of a descending sweep candidate under a solution
+ * policy — lower is better:
+ *   highArc     fastest vertical descent at the target (highest apex)
+ *   lowArc      slowest vertical descent (lowest apex)
+ *   minTime     shortest flight time
+ *   minSpeed    lowest exit speed
+ *   maxDescent  steepest descent angle
+ */
+function policyScore(
+  policy: string, speed: number, flightTime: number, vyTarget: number, vxTarget: number,
+): number {
+  switch (policy) {
+    case 'lowArc':     return -vyTarget;
+    case 'minTime':    return flightTime;
+    case 'minSpeed':   return speed;
+    case 'maxDescent': return -Math.atan2(-vyTarget, vxTarget);
+    default:           return vyTarget; // highArc
+  }
 }
 
 /**
  * 2D sweep over (speed, angle) to find the best starting point for Newton.
- * Prefers descending trajectories under the ceiling, biased toward the
- * high-arc (steepest descent) solution when both arcs are available.
+ * Prefers descending trajectories under the ceiling; among those, the
+ * solution policy (see policyScore) decides which arc and speed to seed.
+ * Also ranks every viable seed (one per sampled angle) by the policy, so
+ * a caller whose best seed fails validation can walk down the ranking.
  */
 export function sweepSpeedAndAngle(
   minSpeed: number, maxSpeed: number, speedSteps: number,
   minAngleDeg: number, maxAngleDeg: number,
   tangentialVelo: number, radialVelo: number,
   range: number, heightDiff: number, shooterZ: number, ceilingHeight: number,
+  policy: string = 'highArc',
 ): SweepResult {
   const minAngle = minAngleDeg * Math.PI / 180;
   const maxAngle = maxAngleDeg * Math.PI / 180;
@@ -134,13 +343,13 @@ export function sweepSpeedAndAngle(
   let bestSpeed = (minSpeed + maxSpeed) / 2;
   let bestAngle = (minAngle + maxAngle) / 2;
   let bestError = Infinity;
-  let bestVy = 0;
+  let bestScore = Infinity;
   let foundDescending = false;
   const minDescentRate = -0.5;
 
   // Sweep error threshold: seeds within this tolerance are considered viable
-  // for Newton convergence.  Among viable seeds we prefer steeper descent
-  // (high arc); among non-viable ones we prefer lower error.  0.5 m is
+  // for Newton convergence.  Among viable seeds the policy decides; among
+  // non-viable ones we prefer lower error.  0.5 m is
   // tight enough that Newton reliably converges, while still accepting
   // imperfect grid points.
   const sweepErrorThreshold = 0.5;
@@ -148,10 +357,13 @@ export function sweepSpeedAndAngle(
   const speedStep = speedSteps > 1 ? (maxSpeed - minSpeed) / (speedSteps - 1) : 0;
   const angleStep = 0.01; // ~0.55°
 
+  // Most accurate viable seed at each sampled angle, with its policy score
+  const perAngle = new Map<number, { speed: number; angle: number; err: number; score: number }>();
+
   for (let si = 0; si < speedSteps; si++) {
     const v = minSpeed + si * speedStep;
 
-    for (let a = minAngle; a <= maxAngle + 0.001; a += angleStep) {
+    for (let ai = 0, a = minAngle; a <= maxAngle + 0.001; ai++, a += angleStep) {
       const angle = Math.min(a, maxAngle);
       const cosA = Math.cos(angle);
       const sinA = Math.sin(angle);
@@ -173,21 +385,26 @@ export function sweepSpeedAndAngle(
       const desc = vyTarget < minDescentRate;
 
       if (desc) {
+        const score = policyScore(policy, v, t, vyTarget, effSpeed);
         // Classify candidates as "viable" (close enough for Newton to converge)
         // vs "marginal" (too far off to be a reliable seed).
         const newViable  = err       < sweepErrorThreshold;
         const bestViable = bestError < sweepErrorThreshold;
 
+        if (newViable && err < (perAngle.get(ai)?.err ?? Infinity)) {
+          perAngle.set(ai, { speed: v, angle, err, score });
+        }
+
         const shouldReplace = !foundDescending               // first descending — always accept
           || (newViable && !bestViable)                       // viable beats marginal
-          || (newViable && bestViable && vyTarget < bestVy)   // both viable — prefer steeper descent (high arc)
+          || (newViable && bestViable && score < bestScore)   // both viable — the policy decides
           || (!newViable && !bestViable && err < bestError);  // both marginal — prefer lower error
 
         if (shouldReplace) {
           bestError = err;
           bestSpeed = v;
           bestAngle = angle;
-          bestVy = vyTarget;
+          bestScore = score;
           foundDescending = true;
         }
       } else if (!foundDescending && err < bestError) {
@@ -201,7 +418,10 @@ export function sweepSpeedAndAngle(
     }
   }
 
-  return { speed: bestSpeed, angle: bestAngle, error: bestError };
+  const ranked = [...perAngle.values()]
+    .sort((a, b) => a.score - b.score)
+    .map(({ speed, angle }) => ({ speed, angle }));
+  return { speed: bestSpeed, angle: bestAngle, error: bestError, ranked };
 }
 
 /**
@@ -210,7 +430,7 @@ export function sweepSpeedAndAngle(
  *   f2 = lateral drift at target            (want 0)
  *
  * Returns { f1, f2, effRadSpeed, shotTime, vz } or null if effRadSpeed is too low.
- * When drag is enabled, uses numerical simulation instead of closed-form.
+ * When drag or spin is enabled, uses numerical simulation instead of closed-form.
  */
 function evalResiduals(
   speed: number, theta: number, phi: number,
@@ -228,13 +448,13 @@ function evalResiduals(
   const lateralVelo = hSpeed * Math.sin(phi) + tangentialVelo;
   const vLaunch = speed * sinT;
 
-  if (drag.enabled) {
+  if (isIntegrated(drag)) {
     // ── Numerical integration path ────────────────────────
     // Pass a large shooterZ to effectively disable the ground check here.
     // Ground / ceiling validation happens later in validateAndBuildResult
     // which has the real shooterZ.  Using 0 would kill valid high-arc
     // trajectories that dip below the launch point on their way to the target.
-    const sim = simulateToRange(effRadSpeed, lateralVelo, vLaunch, range, 1000, drag.k);
+    const sim = simulateToRange(effRadSpeed, lateralVelo, vLaunch, phi, range, 1000, drag);
     if (!sim) return null;
     return {
       f1: sim.z - heightDiff,
@@ -256,14 +476,49 @@ function evalResiduals(
 }
 
 /**
- * Joint 2D Newton refinement of launch angle (theta) and turret angle (phi).
- *
- * Simultaneously zeros out:
+ * Forward-difference Jacobian of the residuals (f1 = height error,
+ * f2 = lateral drift) in speed, theta and phi at a point.  Returns null if
+ * any perturbed shot cannot be evaluated.
+ */
+function residualJacobian(
+  speed: number, theta: number, phi: number,
+  radialVelo: number, tangentialVelo: number,
+  range: number, heightDiff: number,
+  drag: DragConfig, delta: number,
+): ShotJacobian | null {
+  const r0     = evalResiduals(speed, theta, phi, radialVelo, tangentialVelo, range, heightDiff, drag);
+  const rSpeed = evalResiduals(speed + delta, theta, phi, radialVelo, tangentialVelo, range, heightDiff, drag);
+  const rTheta = evalResiduals(speed, theta + delta, phi, radialVelo, tangentialVelo, range, heightDiff, drag);
+  const rPhi   = evalResiduals(speed, theta, phi + delta, radialVelo, tangentialVelo, range, heightDiff, drag);
+  if (!r0 || !rSpeed || !rTheta || !rPhi) return null;
+
+  return {
+    heightSpeed:   (rSpeed.f1 - r0.f1) / delta,
+    heightAngle:   (rTheta.f1 - r0.f1) / delta,
+    heightTurret:  (rPhi.f1   - r0.f1) / delta,
+    lateralSpeed:  (rSpeed.f2 - r0.f2) / delta,
+    lateralAngle:  (rTheta.f2 - r0.f2) / delta,
+    lateralTurret: (rPhi.f2   - r0.f2) / delta,
+  };
+}
+
+/**
+ * Newton refinement of the launch: zeros
  *   f1 = height error at target
  *   f2 = lateral drift at target
+ * over whichever of speed, launch angle (theta) and turret angle (phi) are
+ * free, using a finite-difference Jacobian:
  *
- * Uses a 2×2 finite-difference Jacobian, analytically inverted.
- * When fixedTheta is true, holds theta constant and runs 1D Newton on phi alone.
+ *   theta free, speed fixed   2D Newton on (theta, phi)
+ *   theta fixed, speedRange   2D Newton on (speed, phi)
+ *   both free                 3D: two equations, three unknowns — each
+ *                             step is the minimum-norm correction (units
+ *                             m/s and rad), so the solution stays as close
+ *                             as possible to the sweep's policy-chosen seed
+ *   neither                   1D Newton on phi alone
+ *
+ * Speed and theta are kept inside their bounds.  In the 3D solve, one
+ * that is pushed past its bound is held there and the other two solve on.
  */
 export function refineShot(
   speed: number, initialTheta: number,
@@ -271,12 +526,14 @@ export function refineShot(
   range: number, heightDiff: number,
   clampMinDeg: number, clampMaxDeg: number,
   fixedTheta: boolean = false,
-  drag: DragConfig = { enabled: false, k: 0 },
+  drag: DragConfig = NO_DRAG,
+  speedRange: [number, number] | null = null,
 ): RefineResult {
   const clampMin = Math.max(clampMinDeg * Math.PI / 180, 0.05);
   const clampMax = Math.min(clampMaxDeg * Math.PI / 180, Math.PI / 2 - 0.05);
   const phiMin = -Math.PI / 2 + 0.05;
   const phiMax = Math.PI / 2 - 0.05;
+  const [vMin, vMax] = speedRange ?? [speed, speed];
 
   let theta = initialTheta;
   // Seed turret angle from the geometric approximation
@@ -287,6 +544,10 @@ export function refineShot(
   const delta = 0.0001; // finite-difference step
 
   for (let attempt = 0; attempt < 2; attempt++) {
+    // Variables held at a bound for the rest of this attempt
+    let speedHeld = !speedRange;
+    let thetaHeld = fixedTheta;
+
     for (let i = 0; i < 25; i++) {
       const r0 = evalResiduals(speed, theta, phi, radialVelo, tangentialVelo, range, heightDiff, drag);
       if (!r0) {
@@ -303,43 +564,33 @@ export function refineShot(
       // Check convergence
       if (Math.abs(r0.f1) < 0.001 && Math.abs(r0.f2) < 0.001) break;
 
-      if (fixedTheta) {
-        // ── 1D Newton on phi only ─────────────────────────────
-        const rPhi = evalResiduals(speed, theta, phi + delta, radialVelo, tangentialVelo, range, heightDiff, drag);
-        if (!rPhi) break;
-
-        const df2_dphi = (rPhi.f2 - r0.f2) / delta;
-        if (Math.abs(df2_dphi) < 0.0001) break;
-
-        phi -= r0.f2 / df2_dphi;
-        phi = Math.max(phiMin, Math.min(phiMax, phi));
-      } else {
-        // ── 2D Newton on (theta, phi) ─────────────────────────
-        const rTheta = evalResiduals(speed, theta + delta, phi, radialVelo, tangentialVelo, range, heightDiff, drag);
-        const rPhi   = evalResiduals(speed, theta, phi + delta, radialVelo, tangentialVelo, range, heightDiff, drag);
-        if (!rTheta || !rPhi) break;
-
-        // Jacobian entries
-        const df1_dtheta = (rTheta.f1 - r0.f1) / delta;
-        const df1_dphi   = (rPhi.f1   - r0.f1) / delta;
-        const df2_dtheta = (rTheta.f2 - r0.f2) / delta;
-        const df2_dphi   = (rPhi.f2   - r0.f2) / delta;
-
-        // Determinant of the 2×2 Jacobian
-        const det = df1_dtheta * df2_dphi - df1_dphi * df2_dtheta;
-        if (Math.abs(det) < 1e-10) break;
-
-        // J⁻¹ · [f1, f2]
-        const invDet = 1 / det;
-        const dTheta = invDet * ( df2_dphi * r0.f1 - df1_dphi * r0.f2);
-        const dPhi   = invDet * (-df2_dtheta * r0.f1 + df1_dtheta * r0.f2);
-
-        theta -= dTheta;
-        phi   -= dPhi;
-
-        theta = Math.max(clampMin, Math.min(clampMax, theta));
-        phi   = Math.max(phiMin, Math.min(phiMax, phi));
+      // Jacobian columns [∂f1, ∂f2] of the free variables
+      const rPhi = evalResiduals(speed, theta, phi + delta, radialVelo, tangentialVelo, range, heightDiff, drag);
+      const rTheta = thetaHeld ? null
+        : evalResiduals(speed, theta + delta, phi, radialVelo, tangentialVelo, range, heightDiff, drag);
+      const rSpeed = speedHeld ? null
+        : evalResiduals(speed + delta, theta, phi, radialVelo, tangentialVelo, range, heightDiff, drag);
+      if (!rPhi || (!thetaHeld && !rTheta) || (!speedHeld && !rSpeed)) break;
+
+      const colPhi = [(rPhi.f1 - r0.f1) / delta, (rPhi.f2 - r0.f2) / delta];
+      const colTheta = rTheta ? [(rTheta.f1 - r0.f1) / delta, (rTheta.f2 - r0.f2) / delta] : null;
+      const colSpeed = rSpeed ? [(rSpeed.f1 - r0.f1) / delta, (rSpeed.f2 - r0.f2) / delta] : null;
+
+      const step = newtonStep([r0.f1, r0.f2], colSpeed, colTheta, colPhi);
+      if (!step) break;
+      const [dSpeed, dTheta, dPhi] = step;
+
+      // Apply.  In 3D, a variable pushed past its bound is held there and
+      // the other two solve on; in 2D it is just clamped.
+      const nextSpeed = Math.max(vMin, Math.min(vMax, speed - dSpeed));
+      const nextTheta = Math.max(clampMin, Math.min(clampMax, theta - dTheta));
+      if (!speedHeld && !thetaHeld) {
+        if (nextSpeed !== speed - dSpeed) speedHeld = true;
+        else if (nextTheta !== theta - dTheta) thetaHeld = true;
       }
+      speed = nextSpeed;
+      theta = nextTheta;
+      phi = Math.max(phiMin, Math.min(phiMax, phi - dPhi));
     }
 
     // Check if converged solution is descending (use drag-aware vz)
@@ -352,25 +603,73 @@ export function refineShot(
     phi = Math.atan2(-tangentialVelo, speed * Math.cos(theta));
   }
 
-  return { angle: theta, shotTime, turretAdjRad: phi };
+  // Jacobian at the solution (with a speed column) for the sensitivity map
+  const jacobian = residualJacobian(
+    speed, theta, phi, radialVelo, tangentialVelo, range, heightDiff, drag, delta,
+  );
+
+  return { speed, angle: theta, shotTime, turretAdjRad: phi, jacobian };
+}
+
+/**
+ * Newton step [dSpeed, dTheta, dPhi] for residuals f from the Jacobian
+ * columns of the free variables (null = held; phi is always free).  With
+ * three free variables this is the minimum-norm step Jᵀ(JJᵀ)⁻¹f.  Returns
+ * null if the system is singular.
+ */
+function newtonStep(
+  f: number[], colSpeed: number[] | null, colTheta: number[] | null, colPhi: number[],
+): [number, number, number] | null {
+  if (colSpeed && colTheta) {
+    // A = J·Jᵀ (2×2), solve A·y = f, step = Jᵀ·y
+    const cols = [colSpeed, colTheta, colPhi];
+    let a11 = 0, a12 = 0, a22 = 0;
+    for (const c of cols) { a11 += c[0] * c[0]; a12 += c[0] * c[1]; a22 += c[1] * c[1]; }
+    const det = a11 * a22 - a12 * a12;
+    if (Math.abs(det) < 1e-10) return null;
+    const y1 = ( a22 * f[0] - a12 * f[1]) / det;
+    const y2 = (-a12 * f[0] + a11 * f[1]) / det;
+    const [ds, dt, dp] = cols.map(c => c[0] * y1 + c[1] * y2);
+    return [ds, dt, dp];
+  }
+
+  const other = colSpeed ?? colTheta;
+  if (!other) {
+    // Phi alone: zero the lateral drift
+    if (Math.abs(colPhi[1]) < 0.0001) return null;
+    return [0, 0, f[1] / colPhi[1]];
+  }
+
+  // Square 2×2: J⁻¹·f with J = [other | colPhi]
+  const det = other[0] * colPhi[1] - colPhi[0] * other[1];
+  if (Math.abs(det) < 1e-10) return null;
+  const dOther = ( colPhi[1] * f[0] - colPhi[0] * f[1]) / det;
+  const dPhi   = (-other[1]  * f[0] + other[0]  * f[1]) / det;
+  return colSpeed ? [dOther, 0, dPhi] : [0, dOther, dPhi];
 }
 
 /**
  * Validate a (speed, angle, turretAdj) candidate and build a ShotResult.
- * Checks height error, ceiling, descent, and lateral drift constraints.
- * Returns null if any check fails.
+ * Checks height error, ceiling, descent, lateral drift, and that the ball
+ * passes through the hub opening without touching the rim.  A ground
+ * target drops the descent and rim checks: the apex must stay under the
+ * apex cap and the ball must touch down and roll out inside the landing
+ * zone instead.  Returns the first check that fails, and by how much,
+ * as a ShotRejection (see rejection.ts).
  */
 function validateAndBuildResult(
   speed: number, angle: number, turretAdj: number,
-  range: number, heightDiff: number, p: Params,
-  drag: DragConfig,
-): ShotResult | null {
+  range: number, bearing: number, heightDiff: number, p: Params,
+  drag: DragConfig, jacobian: ShotJacobian | null,
+): ShotResult | ShotRejection {
+  if (!jacobian) return { reason: 'noConvergence' };
+
   const cosA = Math.cos(angle);
   const sinA = Math.sin(angle);
   const hSpeed = speed * cosA;
   const effRadSpeed = hSpeed * Math.cos(turretAdj) + p.radialVelo;
 
-  if (effRadSpeed <= 0.1) return null;
+  if (effRadSpeed <= 0.1) return { reason: 'noConvergence' };
 
   const lateralVelo = hSpeed * Math.sin(turretAdj) + p.tangentialVelo;
   const vLaunch = speed * sinA;
@@ -382,10 +681,10 @@ function validateAndBuildResult(
   let lateralDrift: number;
   let vxAtTarget: number;
 
-  if (drag.enabled) {
+  if (isIntegrated(drag)) {
     // ── Numerical integration path ────────────────────────
-    const sim = simulateToRange(effRadSpeed, lateralVelo, vLaunch, range, p.shooterZ, drag.k);
-    if (!sim) return null;
+    const sim = simulateToRange(effRadSpeed, lateralVelo, vLaunch, turretAdj, range, p.shooterZ, drag);
+    if (!sim) return { reason: 'groundHit' };
 
     t = sim.t;
     heightError = Math.abs(sim.z - heightDiff);
@@ -404,16 +703,62 @@ function validateAndBuildResult(
     vxAtTarget = effRadSpeed;
   }
 
-  // Tighter tolerance when Newton was used, looser for fixed angle
-  const tolerance = p.angleMode === 'fixed' ? 0.15 : 0.05;
-  if (heightError > tolerance) return null;
+  if (heightError > 0.05) return { reason: 'heightError', margin: heightError - 0.05 };
 
-  if (apexHeight > p.ceilingHeight) return null;
+  if (apexHeight > apexLimit(p)) return { reason: 'ceiling', margin: apexHeight - apexLimit(p) };
+
+  const ground = p.targetType === 'ground';
 
   // Must be descending at least as fast as the threshold (maxVyAtTarget is negative)
-  if (vyAtTarget > p.maxVyAtTarget) return null;
+  if (!ground && vyAtTarget > p.maxVyAtTarget) {
+    return { reason: 'descent', margin: vyAtTarget - p.maxVyAtTarget };
+  }
 
-  if (p.maxLateralDrift > 0 && Math.abs(lateralDrift) > p.maxLateralDrift) return null;
+  if (p.maxLateralDrift > 0 && Math.abs(lateralDrift) > p.maxLateralDrift) {
+    return { reason: 'lateralDrift', margin: Math.abs(lateralDrift) - p.maxLateralDrift };
+  }
+
+  // The exit point is recovered from the target: range and bearing are
+  // measured from it
+  const launchX = p.targetX - range * Math.cos(bearing);
+  const launchY = p.targetY - range * Math.sin(bearing);
+
+  let rimClearance = Infinity;
+  let landing: { x: number; y: number } | undefined;
+  let zoneMargin: number | undefined;
+  if (ground) {
+    // Touchdown and roll-out must stay inside the landing zone
+    const zone = landingZoneFromParams(p);
+    const touchdown = zone && traceLanding(
+      effRadSpeed, lateralVelo, vLaunch, turretAdj, bearing, launchX, launchY, p.shooterZ, drag);
+    if (!zone || !touchdown) return { reason: 'landing' };
+    zoneMargin = landingMargin(zone, touchdown.x, touchdown.y, touchdown.heading, p.rollOut);
+    if (zoneMargin < 0) return { reason: 'landing', margin: -zoneMargin };
+    landing = { x: touchdown.x, y: touchdown.y };
+  } else {
+    // Ball (with its real diameter) must clear the rim and funnel wall
+    rimClearance = traceRimClearance(
+      effRadSpeed, lateralVelo, vLaunch, turretAdj,
+      range, bearing, p.shooterZ, hubFromParams(p), drag,
+    );
+    if (rimClearance === -Infinity) return { reason: 'groundHit' };
+    if (rimClearance < 0) return { reason: 'rim', margin: -rimClearance };
+  }
+
+  // …and every field obstacle and overhead zone near its path, along the
+  // whole flight
+  const margin = drag.radius + Math.abs(lateralDrift) + 0.5;
+  const obstacles = obstaclesNearSegment(
+    obstaclesFromParams(p), launchX, launchY, p.targetX, p.targetY, margin);
+  const overheads = obstaclesNearSegment(
+    overheadZonesFromParams(p), launchX, launchY, p.targetX, p.targetY, margin);
+  if (obstacles.length + overheads.length > 0) {
+    const clearance = traceObstacleClearance(
+      effRadSpeed, lateralVelo, vLaunch, turretAdj,
+      bearing, launchX, launchY, p.shooterZ, p.targetZ, obstacles, overheads, drag,
+    );
+    if (clearance < 0) return { reason: 'obstacle', margin: -clearance };
+  }
 
   // Descent angle: angle below horizontal at target (positive = descending)
   const descentAngleDeg = Math.atan2(-vyAtTarget, vxAtTarget) * 180 / Math.PI;
@@ -429,20 +774,33 @@ function validateAndBuildResult(
     lateralDrift,
     turretAdjRad: turretAdj,
     range,
+    bearing,
+    rimClearance,
+    exitOffsetX: 0,
+    exitOffsetY: 0,
+    launchZ: p.shooterZ,
+    releaseOffsetX: 0,
+    releaseOffsetY: 0,
+    jacobian,
+    ...(landing && { landing, landingMargin: zoneMargin }),
   };
 }
 
 /**
- * Try Newton refinement at a given speed and validate the result.
- * Returns ShotResult or null.  Used by both evaluateShot and evaluateShotWithHint.
+ * Try Newton refinement from a given speed and validate the result.
+ * Returns ShotResult or the rejection.  Used by both evaluateShot and evaluateShotWithHint.
+ * Speed is refined within the configured range unless it is fixed or
+ * refineSpeed is false (the family scan keeps its sampled speeds).
  */
 function trySpeedWithNewton(
-  speed: number, seedAngle: number, range: number, heightDiff: number,
-  p: Params, drag: DragConfig,
-): ShotResult | null {
+  speed: number, seedAngle: number, range: number, bearing: number, heightDiff: number,
+  p: Params, drag: DragConfig, refineSpeed: boolean = true,
+): ShotResult | ShotRejection {
   const aMin = p.angleMode === 'fixed' ? p.fixedAngle : p.minAngle;
   const aMax = p.angleMode === 'fixed' ? p.fixedAngle : p.maxAngle;
   const isFixedAngle = p.angleMode === 'fixed';
+  const speedRange: [number, number] | null = refineSpeed && p.speedMode !== 'fixed'
+    ? [p.minSpeed, p.maxSpeed] : null;
 
   const ref = refineShot(
     speed, isFixedAngle ? aMin * Math.PI / 180 : seedAngle,
@@ -451,9 +809,176 @@ function trySpeedWithNewton(
     aMin, aMax,
     isFixedAngle,
     drag,
+    speedRange,
+  );
+
+  return validateAndBuildResult(
+    ref.speed, ref.angle, ref.turretAdjRad, range, bearing, heightDiff, p, drag, ref.jacobian,
   );
+}
+
+/**
+ * Field-frame ball exit point for a robot centered at (fx, fy).
+ *
+ * The turret pivot sits at (turretOffsetX, turretOffsetY) in the robot frame
+ * (forward, left), with the chassis at chassisHeading (see footprint.ts).
+ * A turretless robot's shooter sits at the same offset, but the whole
+ * chassis turns to the aim heading about its center, so the offset swings
+ * with the aim.  The hood arc is centered exitRadius from the pivot along
+ * the aim heading, at shooterZ; the ball leaves the arc where its tangent
+ * matches the launch angle, so a steeper hood moves the exit point back
+ * and down.
+ */
+export function launchPoint(
+  fx: number, fy: number, angleRad: number, aimHeading: number, p: Params,
+): { x: number; y: number; z: number } {
+  const robotHeading = p.shooterMount === 'fixed' ? aimHeading : chassisHeading(fx, fy, p);
+  const cosR = Math.cos(robotHeading), sinR = Math.sin(robotHeading);
+  const pivotX = fx + p.turretOffsetX * cosR - p.turretOffsetY * sinR;
+  const pivotY = fy + p.turretOffsetX * sinR + p.turretOffsetY * cosR;
+  const reach = p.exitRadius - p.hoodArcRadius * Math.sin(angleRad);
+  return {
+    x: pivotX + reach * Math.cos(aimHeading),
+    y: pivotY + reach * Math.sin(aimHeading),
+    z: p.shooterZ + p.hoodArcRadius * Math.cos(angleRad),
+  };
+}
+
+/**
+ * Shooter velocity in the (tangential, radial) frame: the chassis linear
+ * velocity plus ω × r from the chassis yaw rate acting on the shooter lever
+ * arm.  The lever arm runs along the robot's forward axis, at heading
+ * (rad, field frame), and the frame is set by the bearing (rad) to the
+ * target — facing the target the induced velocity is purely tangential,
+ * side-on to it purely radial.
+ */
+export function shooterVelocity(
+  tangentialVelo: number, radialVelo: number, p: Params, heading: number, bearing: number,
+): { tangential: number; radial: number } {
+  const induced = p.yawRate * Math.PI / 180 * p.leverArm;
+  const off = heading - bearing;
+  return {
+    tangential: tangentialVelo + induced * Math.cos(off),
+    radial: radialVelo - induced * Math.sin(off),
+  };
+}
+
+/**
+ * Robot state at ball release for a shoot decision made at (fx, fy).
+ *
+ * During the latency the robot keeps its field velocity — tangentialVelo /
+ * radialVelo resolved against the bearing to the target at the decision
+ * point.  The returned velocity is that same field vector re-resolved
+ * against the bearing at the release point.
+ */
+export function releaseState(
+  fx: number, fy: number, tangentialVelo: number, radialVelo: number, p: Params,
+): { x: number; y: number; tangentialVelo: number; radialVelo: number } {
+  if (p.latency <= 0) return { x: fx, y: fy, tangentialVelo, radialVelo };
+
+  const b0 = Math.atan2(p.targetY - fy, p.targetX - fx);
+  const vx = radialVelo * Math.cos(b0) - tangentialVelo * Math.sin(b0);
+  const vy = radialVelo * Math.sin(b0) + tangentialVelo * Math.cos(b0);
+  const x = fx + vx * p.latency;
+  const y = fy + vy * p.latency;
+
+  const b1 = Math.atan2(p.targetY - y, p.targetX - x);
+  return {
+    x, y,
+    tangentialVelo: -vx * Math.sin(b1) + vy * Math.cos(b1),
+    radialVelo: vx * Math.cos(b1) + vy * Math.sin(b1),
+  };
+}
+
+/**
+ * Params for a shoot decision at (fx, fy).  In the field velocity frame
+ * the robot's (fieldVx, fieldVy) is resolved into tangentialVelo /
+ * radialVelo against the bearing to the target from there; otherwise p
+ * is returned as is.
+ */
+export function resolveRobotVelocity(fx: number, fy: number, p: Params): Params {
+  if (p.velocityFrame !== 'field') return p;
+  const b = Math.atan2(p.targetY - fy, p.targetX - fx);
+  return {
+    ...p,
+    tangentialVelo: -p.fieldVx * Math.sin(b) + p.fieldVy * Math.cos(b),
+    radialVelo: p.fieldVx * Math.cos(b) + p.fieldVy * Math.sin(b),
+  };
+}
+
+/**
+ * Solve a shot from the true exit point of a robot at (fx, fy).
+ *
+ * The exit point depends on the solved hood angle and turret heading, so
+ * this alternates: place the exit point → solve → move the exit point to
+ * match the solution, until it settles (a few mm).  With zero mount offsets
+ * the first pass is already exact — unless the robot is turretless and
+ * yawing, when the heading the yaw term turns with has to settle too.
+ * solve() receives range, bearing and height difference measured from the
+ * exit point, plus Params whose shooterZ is the exit height and whose
+ * robot velocity includes the yaw-rate contribution at the chassis
+ * heading (see shooterVelocity).
+ *
+ * A shot whose turret heading lies beyond the turret stops (see turret.ts)
+ * is rejected; a valid one records the turret angle and chassis heading it
+ * needs.  A failure is returned as the solve's (or this check's)
+ * rejection.  For a turretless robot the solved turret adjustment is a
+ * chassis heading change, and the heading is the result.
+ */
+function solveFromLaunchPoint(
+  startX: number, startY: number, params: Params, seedAngle: number,
+  solve: (range: number, bearing: number, heightDiff: number, lp: Params) => ShotResult | ShotRejection,
+): ShotResult | ShotRejection {
+  // Move to where the robot will be when the ball actually leaves
+  const rel = releaseState(startX, startY, params.tangentialVelo, params.radialVelo, params);
+  const fx = rel.x, fy = rel.y;
+  const p = { ...params, tangentialVelo: rel.tangentialVelo, radialVelo: rel.radialVelo };
+
+  let angle = seedAngle;
+  let aim = Math.atan2(p.targetY - fy, p.targetX - fx);
+  let launch = launchPoint(fx, fy, angle, aim, p);
+  let result: ShotResult | ShotRejection = { reason: 'noConvergence' };
+  const frame = Math.atan2(p.targetY - fy, p.targetX - fx);
+
+  for (let iter = 0; iter < 8; iter++) {
+    const dx = p.targetX - launch.x;
+    const dy = p.targetY - launch.y;
+    const range = Math.sqrt(dx * dx + dy * dy);
+    if (range < 0.3) return { reason: 'tooClose', margin: 0.3 - range };
+
+    // A turretless chassis turns with the aim, so the lever arm does too
+    const heading = p.shooterMount === 'fixed' ? aim : chassisHeading(fx, fy, p);
+    const sv = shooterVelocity(p.tangentialVelo, p.radialVelo, p, heading, frame);
+
+    const lp = { ...p, shooterZ: launch.z, tangentialVelo: sv.tangential, radialVelo: sv.radial };
+    result = solve(range, Math.atan2(dy, dx), p.targetZ - launch.z, lp);
+    if (isRejection(result)) return result;
+    result.exitOffsetX = launch.x - fx;
+    result.exitOffsetY = launch.y - fy;
+    result.launchZ = launch.z;
+    result.releaseOffsetX = fx - startX;
+    result.releaseOffsetY = fy - startY;
+
+    angle = result.hoodAngleDeg * Math.PI / 180;
+    aim = result.bearing + result.turretAdjRad;
+    const next = launchPoint(fx, fy, angle, aim, p);
+    const moved = Math.hypot(next.x - launch.x, next.y - launch.y, next.z - launch.z);
+    // A turretless heading also has to settle — the yaw term turns with it
+    const turned = p.shooterMount === 'fixed' ? Math.abs(Math.sin(aim - heading)) : 0;
+    if (moved < 0.002 && turned < 1e-4) break;
+    launch = next;
+  }
 
-  return validateAndBuildResult(speed, ref.angle, ref.turretAdjRad, range, heightDiff, p, drag);
+  if (isRejection(result)) return result;
+  const aimHeading = result.bearing + result.turretAdjRad;
+  const heading = p.shooterMount === 'fixed' ? aimHeading : chassisHeading(fx, fy, p);
+  if (p.shooterMount !== 'fixed') {
+    const turret = turretAngle(aimHeading, heading, p);
+    if (turret === null) return { reason: 'turret', margin: turretOverrun(aimHeading, heading, p) };
+    result.turretAngleDeg = turret;
+  }
+  result.headingDeg = Math.atan2(Math.sin(heading), Math.cos(heading)) * 180 / Math.PI;
+  return result;
 }
 
 /**
@@ -462,13 +987,16 @@ function trySpeedWithNewton(
  * Returns shot details, or null if invalid.
  */
 export function evaluateShot(fx: number, fy: number, p: Params): ShotResult | null {
-  const dx = p.targetX - fx;
-  const dy = p.targetY - fy;
-  const range = Math.sqrt(dx * dx + dy * dy);
-  const heightDiff = p.targetZ - p.shooterZ;
-
-  if (range < 0.3) return null; // too close to target
+  const outcome = diagnoseShot(fx, fy, p);
+  return isRejection(outcome) ? null : outcome;
+}
 
+/**
+ * evaluateShot, reporting why an invalid position fails: of the candidates
+ * tried, the rejection that got furthest through the checks (see
+ * rejection.ts).
+ */
+export function diagnoseShot(fx: number, fy: number, p: Params): ShotResult | ShotRejection {
   const drag = dragFromParams(p);
 
   // Determine sweep parameters from mode
@@ -479,23 +1007,67 @@ export function evaluateShot(fx: number, fy: number, p: Params): ShotResult | nu
   const aMax = p.angleMode === 'fixed' ? p.fixedAngle : p.maxAngle;
 
   // Use a fixed speed step size so widening the speed range adds samples
-  // instead of diluting them.  Speed is never Newton-refined, so sweep
-  // resolution directly determines accuracy.
-  // Finer step when angle is fixed (speed is the only degree of freedom).
-  const speedStepSize = (p.angleMode === 'fixed' && p.speedMode !== 'fixed') ? 0.05 : 0.1;
+  // instead of diluting them.  The sweep only seeds Newton, which refines
+  // speed as well, so the step sets robustness rather than accuracy.
+  const speedStepSize = 0.1;
   const actualSpeedSteps = p.speedMode === 'fixed'
     ? 1
     : Math.max(2, Math.round((sMax - sMin) / speedStepSize) + 1);
 
-  // Sweep (always vacuum — just finding a seed for Newton)
-  const sweep = sweepSpeedAndAngle(
-    sMin, sMax, actualSpeedSteps,
-    aMin, aMax,
-    p.tangentialVelo, p.radialVelo,
-    range, heightDiff, p.shooterZ, p.ceilingHeight,
-  );
+  const seedAngle = (aMin + aMax) / 2 * Math.PI / 180;
+
+  return solveFromLaunchPoint(fx, fy, p, seedAngle, (range, bearing, heightDiff, lp) => {
+    // Sweep (always vacuum — just finding a seed for Newton)
+    const sweepFor = (policy: string) => sweepSpeedAndAngle(
+      sMin, sMax, actualSpeedSteps,
+      aMin, aMax,
+      lp.tangentialVelo, lp.radialVelo,
+      range, heightDiff, lp.shooterZ, apexLimit(lp),
+      policy,
+    );
+
+    const sweep = sweepFor(lp.solutionPolicy);
+    const trySeed = (seed: { speed: number; angle: number }) =>
+      trySpeedWithNewton(seed.speed, seed.angle, range, bearing, heightDiff, lp, drag);
+    // The ranking's seeds are the most accurate at their angle, so its
+    // first is the policy's pick; a sweep with no viable seed has none
+    const { ranked } = sweep;
+    const result = trySeed(ranked[0] ?? sweep);
+    if (!isRejection(result)) return result;
+    let rejection = result;
+
+    // The preferred seed failed validation (typically a flat arc that
+    // clips the rim) — walk down the policy's ranking.  Seeds about a degree
+    // apart converge to the same shot, so skip those near one already tried
+    const SEED_SPACING = 1.5 * Math.PI / 180;
+    const tried = [(ranked[0] ?? sweep).angle];
+    for (const seed of ranked) {
+      if (tried.some(angle => Math.abs(angle - seed.angle) < SEED_SPACING)) continue;
+      tried.push(seed.angle);
+      const r = trySeed(seed);
+      if (!isRejection(r)) return r;
+      rejection = closerRejection(rejection, r);
+    }
 
-  return trySpeedWithNewton(sweep.speed, sweep.angle, range, heightDiff, p, drag);
+    // No ranked seed passes — fall back to the default high-arc seed
+    // (the best marginal one when the sweep found nothing viable)
+    const fallbacks = ['highArc'];
+    // Field structures can block one arc but not another (a high arc
+    // under a bar, a flat one into a tower), and a ground target's apex
+    // cap can rule out the high arc — also try the mid (minimum speed)
+    // and low arcs
+    if (lp.targetType === 'ground'
+        || obstaclesFromParams(lp).length + overheadZonesFromParams(lp).length > 0) {
+      fallbacks.push('minSpeed', 'lowArc');
+    }
+
+    for (const policy of fallbacks.filter(f => f !== lp.solutionPolicy)) {
+      const r = trySeed(sweepFor(policy));
+      if (!isRejection(r)) return r;
+      rejection = closerRejection(rejection, r);
+    }
+    return rejection;
+  });
 }
 
 /**
@@ -507,42 +1079,40 @@ export function evaluateShotWithHint(
   fx: number, fy: number, p: Params,
   hintSpeed: number, hintAngleRad: number,
 ): ShotResult | null {
-  const dx = p.targetX - fx;
-  const dy = p.targetY - fy;
-  const range = Math.sqrt(dx * dx + dy * dy);
-  const heightDiff = p.targetZ - p.shooterZ;
-
-  if (range < 0.3) return null;
-
   const drag = dragFromParams(p);
   const sMin = p.speedMode === 'fixed' ? p.fixedSpeed : p.minSpeed;
   const sMax = p.speedMode === 'fixed' ? p.fixedSpeed : p.maxSpeed;
 
-  // Try the hint speed directly — this is the fast path and works for the
-  // vast majority of cells that are adjacent to a valid neighbor.
-  const direct = trySpeedWithNewton(hintSpeed, hintAngleRad, range, heightDiff, p, drag);
-  if (direct) return direct;
-
-  // Try nearby speeds in expanding rings around the hint.
-  for (let delta = 0.2; delta <= 0.8; delta += 0.2) {
-    const lo = hintSpeed - delta;
-    const hi = hintSpeed + delta;
-    if (lo >= sMin) {
-      const r = trySpeedWithNewton(lo, hintAngleRad, range, heightDiff, p, drag);
-      if (r) return r;
-    }
-    if (hi <= sMax) {
-      const r = trySpeedWithNewton(hi, hintAngleRad, range, heightDiff, p, drag);
-      if (r) return r;
+  const outcome = solveFromLaunchPoint(fx, fy, p, hintAngleRad, (range, bearing, heightDiff, lp) => {
+    // Try the hint speed directly — this is the fast path and works for the
+    // vast majority of cells that are adjacent to a valid neighbor.
+    const direct = trySpeedWithNewton(hintSpeed, hintAngleRad, range, bearing, heightDiff, lp, drag);
+    if (!isRejection(direct)) return direct;
+
+    // Try nearby speeds in expanding rings around the hint.
+    for (let delta = 0.2; delta <= 0.8; delta += 0.2) {
+      const lo = hintSpeed - delta;
+      const hi = hintSpeed + delta;
+      if (lo >= sMin) {
+        const r = trySpeedWithNewton(lo, hintAngleRad, range, bearing, heightDiff, lp, drag);
+        if (!isRejection(r)) return r;
+      }
+      if (hi <= sMax) {
+        const r = trySpeedWithNewton(hi, hintAngleRad, range, bearing, heightDiff, lp, drag);
+        if (!isRejection(r)) return r;
+      }
     }
-  }
 
-  return null;
+    return direct;
+  });
+  return isRejection(outcome) ? null : outcome;
 }
 
 /**
  * Evaluate a shot at a given range (distance to target), bypassing field position.
  * Creates a virtual field position at the correct distance from the target.
+ * Field obstacles, overhead zones and a fixed heading belong to real
+ * positions and are ignored — the robot faces the target.
  */
 export function evaluateShotAtRange(
   range: number,
@@ -550,16 +1120,351 @@ export function evaluateShotAtRange(
   radialVelo: number,
   params: Params,
 ): ShotResult | null {
-  const fx = params.targetX + range;
-  const fy = params.targetY;
-  const modParams = Object.assign({}, params, { tangentialVelo, radialVelo });
-  return evaluateShot(fx, fy, modParams);
+  const outcome = diagnoseShotAtRange(range, tangentialVelo, radialVelo, params);
+  return isRejection(outcome) ? null : outcome;
+}
+
+/** diagnoseShot for a virtual position at a range (see evaluateShotAtRange). */
+export function diagnoseShotAtRange(
+  range: number, tangentialVelo: number, radialVelo: number, params: Params,
+): ShotResult | ShotRejection {
+  const modParams = Object.assign({}, params, {
+    tangentialVelo, radialVelo, obstacles: '', overheadZones: '', headingRule: 'target',
+  });
+  return diagnoseShot(params.targetX + range, params.targetY, modParams);
+}
+
+// ── Relaxed solves ───────────────────────────────────────────
+
+/** How far past the speed limits (m/s) the relaxed speed scan looks, its window and resolution. */
+const RELAX_SPEED = 10;
+const RELAX_SPEED_STEP = 0.5;
+const RELAX_SPEED_TOL = 0.02;
+
+/** Hood angle step (deg) of the relaxed hood scan. */
+const RELAX_ANGLE_STEP = 1;
+
+/**
+ * What would make an invalid position valid, from relaxed re-solves: the
+ * nearest exit speed outside the speed limits with a valid shot, and the
+ * hood angles with a valid shot within the speed limits.
+ *
+ * Speed is scanned outward in RELAX_SPEED_STEP windows up to RELAX_SPEED
+ * past both limits; the first window with a shot on either side is
+ * narrowed toward its limit to RELAX_SPEED_TOL, and the smaller change
+ * wins.  Hood angles are scanned every RELAX_ANGLE_STEP across the hood's
+ * reach (see hoodReach), the angle limits lifted — with a fixed speed, in
+ * windows of that width, since a fixed speed and angle leave Newton
+ * nothing to adjust.  Everything else stays as configured — a shot the
+ * turret stops or an obstacle rule out gets no alternative here.
+ */
+export function relaxedAlternatives(fx: number, fy: number, p: Params): ShotAlternatives {
+  const sMin = p.speedMode === 'fixed' ? p.fixedSpeed : p.minSpeed;
+  const sMax = p.speedMode === 'fixed' ? p.fixedSpeed : p.maxSpeed;
+
+  // A shot past the limit with speed between it and edge, if the solver finds one
+  const pastLimit = (limit: number, edge: number): ShotResult | null => {
+    const r = evaluateShot(fx, fy, {
+      ...p, speedMode: 'variable', minSpeed: Math.min(limit, edge), maxSpeed: Math.max(limit, edge),
+    });
+    return r && (edge > limit ? r.shotSpeed > limit : r.shotSpeed < limit) ? r : null;
+  };
+  // The window's shot is wherever the policy puts it — bisect the edge
+  // back toward the limit for the nearest one
+  const nearestPast = (limit: number, edge: number, shot: ShotResult): number => {
+    let inner = limit;
+    while (Math.abs(edge - inner) > RELAX_SPEED_TOL) {
+      const mid = (inner + edge) / 2;
+      const r = pastLimit(limit, mid);
+      if (r) {
+        edge = mid;
+        shot = r;
+      } else {
+        inner = mid;
+      }
+    }
+    return shot.shotSpeed - limit;
+  };
+
+  // Speed windows just past each limit, nearest first — both sides, so
+  // the first window with a shot keeps the smaller change
+  let speedChange: number | undefined;
+  for (let d = 0; d < RELAX_SPEED && speedChange === undefined; d += RELAX_SPEED_STEP) {
+    for (const [limit, step] of [[sMax, RELAX_SPEED_STEP], [sMin, -RELAX_SPEED_STEP]]) {
+      const edge = limit + Math.sign(step) * d + step;
+      if (edge < 1) continue;
+      const shot = pastLimit(edge - step, edge);
+      if (!shot) continue;
+      const change = nearestPast(limit, edge, shot);
+      if (speedChange === undefined || Math.abs(change) < Math.abs(speedChange)) {
+        speedChange = change;
+      }
+    }
+  }
+
+  // Hood angles with a shot, merged into bands at the scan's resolution.
+  // With a fixed speed, a window's shot holds over its hood tolerance
+  // (see shotTolerance).
+  const [reachMin, reachMax] = hoodReach(mechanismFromParams(p));
+  const hoodBands: [number, number][] = [];
+  for (let a = reachMin; a <= reachMax; a += RELAX_ANGLE_STEP) {
+    let lo = a, hi = a;
+    if (p.speedMode === 'fixed') {
+      const shot = evaluateShot(fx, fy, {
+        ...p, angleMode: 'variable', minAngle: a, maxAngle: Math.min(a + RELAX_ANGLE_STEP, reachMax),
+      });
+      if (!shot) continue;
+      const tol = shotTolerance(shot).angleDeg;
+      lo = Math.max(reachMin, shot.hoodAngleDeg - tol);
+      hi = Math.min(reachMax, shot.hoodAngleDeg + tol);
+    } else if (!evaluateShot(fx, fy, { ...p, angleMode: 'fixed', fixedAngle: a })) {
+      continue;
+    }
+    const last = hoodBands[hoodBands.length - 1];
+    if (last && lo <= last[1] + RELAX_ANGLE_STEP + 1e-9) {
+      last[1] = Math.max(last[1], hi);
+    } else {
+      hoodBands.push([lo, hi]);
+    }
+  }
+  return { speedChange, hoodBands };
+}
+
+/** relaxedAlternatives for a virtual position at a range (see evaluateShotAtRange). */
+export function relaxedAlternativesAtRange(
+  range: number, tangentialVelo: number, radialVelo: number, params: Params,
+): ShotAlternatives {
+  const modParams = Object.assign({}, params, {
+    tangentialVelo, radialVelo, obstacles: '', overheadZones: '', headingRule: 'target',
+  });
+  return relaxedAlternatives(params.targetX + range, params.targetY, modParams);
+}
+
+// ── Multi-solution evaluator ─────────────────────────────────
+
+/** Speed spacing (m/s) when scanning for trajectory families. */
+const FAMILY_SPEED_STEP = 0.5;
+
+/**
+ * Vacuum launch angles (rad) reaching (range, heightDiff) at a speed —
+ * the low- and high-arc roots of  a·T² − range·T + (a + h) = 0,
+ * T = tan θ, a = g·range² / (2v²).  Null if the speed cannot reach.
+ */
+function arcAngles(speed: number, range: number, heightDiff: number): { low: number; high: number } | null {
+  const a = GRAVITY * range * range / (2 * speed * speed);
+  const disc = range * range - 4 * a * (a + heightDiff);
+  if (disc < 0) return null;
+  const sq = Math.sqrt(disc);
+  return { low: Math.atan((range - sq) / (2 * a)), high: Math.atan((range + sq) / (2 * a)) };
+}
+
+/** Which vacuum arc ('low' or 'high') a solved shot's launch angle is nearer. */
+export function classifyArc(r: ShotResult, p: Params): string {
+  const arcs = arcAngles(r.shotSpeed, r.range, p.targetZ - r.launchZ);
+  const angle = r.hoodAngleDeg * Math.PI / 180;
+  return arcs && Math.abs(angle - arcs.high) < Math.abs(angle - arcs.low) ? 'high' : 'low';
+}
+
+/** Policy preference for a solved shot — lower is better (see policyScore). */
+function resultScore(policy: string, r: ShotResult): number {
+  switch (policy) {
+    case 'lowArc':     return -r.vyAtTarget;
+    case 'minTime':    return r.flightTime;
+    case 'minSpeed':   return r.shotSpeed;
+    case 'maxDescent': return -r.descentAngleDeg;
+    default:           return r.vyAtTarget; // highArc
+  }
+}
+
+/**
+ * Every distinct feasible trajectory family at field position (fx, fy).
+ *
+ * A family is a low- or high-arc solution over a contiguous band of exit
+ * speeds; gaps in feasibility (ceiling, rim, descent limits) split a band.
+ * Speeds are scanned every FAMILY_SPEED_STEP with Newton seeded from the
+ * vacuum arc angles.  Each family reports the shot in its band that the
+ * solution policy prefers, re-solved from its own exit point.  Fixed-angle
+ * mode has a single family at most (speed is the only free variable).
+ *
+ * With drag or spin every scanned speed costs a full integrated Newton
+ * solve.  screen = true first scans in vacuum and integrates only near
+ * vacuum-feasible speeds — several times faster for whole-map passes, but
+ * it can miss a family that only exists with drag (e.g. a low arc whose
+ * vacuum descent is too flat for the rim).
+ */
+export function evaluateShotFamilies(
+  fx: number, fy: number, p: Params, screen: boolean = false,
+): ShotFamily[] {
+  const drag = dragFromParams(p);
+  const aMin = p.angleMode === 'fixed' ? p.fixedAngle : p.minAngle;
+  const aMax = p.angleMode === 'fixed' ? p.fixedAngle : p.maxAngle;
+  const seedAngle = (aMin + aMax) / 2 * Math.PI / 180;
+
+  if (p.angleMode === 'fixed') {
+    const r = evaluateShot(fx, fy, p);
+    return r ? [{ arc: classifyArc(r, p), minSpeed: r.shotSpeed, maxSpeed: r.shotSpeed, result: r }] : [];
+  }
+
+  const sMin = p.speedMode === 'fixed' ? p.fixedSpeed : p.minSpeed;
+  const sMax = p.speedMode === 'fixed' ? p.fixedSpeed : p.maxSpeed;
+  const speeds: number[] = [];
+  for (let v = sMin; v <= sMax + 1e-9; v += FAMILY_SPEED_STEP) speeds.push(v);
+  if (p.speedMode !== 'fixed' && sMax - speeds[speeds.length - 1] > 1e-6) speeds.push(sMax);
+
+  // Pass 1: scan speeds on each arc from the mid-angle exit point.  The
+  // solve callback only collects bands, so solveFromLaunchPoint stops there.
+  const bands: { arc: string; results: ShotResult[] }[] = [];
+  const vacuum: DragConfig = { ...drag, enabled: false, spin: 0 };
+  solveFromLaunchPoint(fx, fy, p, seedAngle, (range, bearing, heightDiff, lp) => {
+    // Solve on one arc at one speed; null if infeasible or Newton jumped arcs
+    const solveAt = (v: number, arc: string, cfg: DragConfig): ShotResult | null => {
+      const arcs = arcAngles(v, range, heightDiff);
+      if (!arcs) return null;
+      const seed = Math.max(aMin * Math.PI / 180, Math.min(aMax * Math.PI / 180,
+        arc === 'low' ? arcs.low : arcs.high));
+      const r = trySpeedWithNewton(v, seed, range, bearing, heightDiff, lp, cfg, false);
+      if (isRejection(r)) return null;
+      const angle = r.hoodAngleDeg * Math.PI / 180;
+      const isHigh = Math.abs(angle - arcs.high) < Math.abs(angle - arcs.low);
+      return isHigh === (arc === 'high') ? r : null;
+    };
+
+    for (const arc of ['low', 'high']) {
+      // Screening: scan the closed-form vacuum model first and only
+      // integrate within two speed steps of a vacuum-feasible speed
+      let candidate = speeds.map(() => true);
+      if (screen && isIntegrated(drag)) {
+        const ok = speeds.map(v => solveAt(v, arc, vacuum) !== null);
+        candidate = speeds.map((_, i) => ok.slice(Math.max(0, i - 2), i + 3).some(Boolean));
+      }
+
+      let band: ShotResult[] = [];
+      speeds.forEach((v, i) => {
+        const r = candidate[i] ? solveAt(v, arc, drag) : null;
+        if (r) {
+          band.push(r);
+        } else if (band.length > 0) {
+          bands.push({ arc, results: band });
+          band = [];
+        }
+      });
+      if (band.length > 0) bands.push({ arc, results: band });
+    }
+    return { reason: 'noConvergence' }; // bands collected — nothing to place
+  });
+
+  // Pass 2: re-solve each band's preferred shot from its own exit point
+  const families: ShotFamily[] = [];
+  for (const band of bands) {
+    const best = band.results.reduce((a, b) =>
+      resultScore(p.solutionPolicy, b) < resultScore(p.solutionPolicy, a) ? b : a);
+    const angle = best.hoodAngleDeg * Math.PI / 180;
+    const result = solveFromLaunchPoint(fx, fy, p, angle, (range, bearing, heightDiff, lp) =>
+      trySpeedWithNewton(best.shotSpeed, angle, range, bearing, heightDiff, lp, drag, false));
+    if (isRejection(result)) continue;
+
+    // Two bands can settle on the same shot — keep one
+    const dup = families.some(f =>
+      Math.abs(f.result.shotSpeed - result.shotSpeed) < 0.05
+      && Math.abs(f.result.hoodAngleDeg - result.hoodAngleDeg) < 0.5);
+    if (dup) continue;
+
+    families.push({
+      arc: band.arc,
+      minSpeed: band.results[0].shotSpeed,
+      maxSpeed: band.results[band.results.length - 1].shotSpeed,
+      result,
+    });
+  }
+  return families;
+}
+
+/** evaluateShotFamilies for a virtual position at a range (see evaluateShotAtRange). */
+export function evaluateShotFamiliesAtRange(
+  range: number, tangentialVelo: number, radialVelo: number, params: Params,
+  screen: boolean = false,
+): ShotFamily[] {
+  const modParams = Object.assign({}, params, {
+    tangentialVelo, radialVelo, obstacles: '', overheadZones: '', headingRule: 'target',
+  });
+  return evaluateShotFamilies(params.targetX + range, params.targetY, modParams, screen);
+}
+
+/**
+ * Integrate a trajectory for a fixed flight time, recording ~60
+ * evenly-spaced samples plus the apex and final velocity.  Used by the
+ * modal views, which need the whole arc rather than just the end state.
+ */
+function sampleTrajectory(
+  vx0: number, vy0: number, vz0: number, phi: number,
+  flightTime: number, shooterZ: number, drag: DragConfig,
+): {
+  trajectory: import('./types').TrajectoryPoint[];
+  vx: number; vy: number; vz: number;
+  tApex: number; xApex: number; zApex: number;
+} {
+  const SAMPLES = 60;
+  const trajectory: import('./types').TrajectoryPoint[] = [];
+  trajectory.push({ x: 0, z: shooterZ, y: 0, t: 0 });
+
+  let final = [0, 0, 0, vx0, vy0, vz0];
+  let maxZ = 0, tApex = 0, xApex = 0;
+  let next = 1;
+
+  integrate(ballDerivative(drag, phi), final, flightTime, drag.tol, step => {
+    for (; next <= SAMPLES && next / SAMPLES * flightTime <= step.t1 + 1e-12; next++) {
+      const t = next / SAMPLES * flightTime;
+      const [x, y, z] = step.at(Math.min(t, step.t1));
+      trajectory.push({ x, z: shooterZ + z, y, t });
+    }
+
+    const ta = locateEvent(step, y => -y[5]);
+    if (ta !== null) {
+      const [x, , z] = step.at(ta);
+      if (z > maxZ) { maxZ = z; tApex = ta; xApex = x; }
+    }
+
+    final = step.y1;
+    return false;
+  });
+
+  const [, , , vx, vy, vz] = final;
+  return { trajectory, vx, vy, vz, tApex, xApex, zApex: shooterZ + maxZ };
+}
+
+/**
+ * Chassis velocity at release, in the (tangential, radial) frame of the
+ * shot, for a solved result.  The decision point is recovered from the
+ * result's offsets, then advanced through the latency (see releaseState).
+ */
+export function releaseVelocity(
+  result: ShotResult, tangentialVelo: number, radialVelo: number, params: Params,
+): { tangentialVelo: number; radialVelo: number } {
+  const startX = params.targetX - result.range * Math.cos(result.bearing)
+    - result.exitOffsetX - result.releaseOffsetX;
+  const startY = params.targetY - result.range * Math.sin(result.bearing)
+    - result.exitOffsetY - result.releaseOffsetY;
+  const rel = releaseState(startX, startY, tangentialVelo, radialVelo, params);
+  return { tangentialVelo: rel.tangentialVelo, radialVelo: rel.radialVelo };
+}
+
+/**
+ * Chassis heading and velocity-frame bearing (rad) at release for a
+ * solved result, as shooterVelocity takes them.  The frame's bearing is
+ * from the robot center, not the exit point.
+ */
+export function releaseFrame(result: ShotResult, params: Params): { heading: number; bearing: number } {
+  const x = params.targetX - result.range * Math.cos(result.bearing) - result.exitOffsetX;
+  const y = params.targetY - result.range * Math.sin(result.bearing) - result.exitOffsetY;
+  const bearing = Math.atan2(params.targetY - y, params.targetX - x);
+  const heading = result.headingDeg !== undefined ? result.headingDeg * Math.PI / 180 : bearing;
+  return { heading, bearing };
 }
 
 /**
  * Build a detailed shot object from a basic result + velocity context.
  * Generates trajectory points and all derived vectors for the 3-view drawing.
- * When drag is enabled, the trajectory is produced by RK4 integration.
+ * When drag or spin is enabled, the trajectory is numerically integrated.
  */
 export function computeDetailedShot(
   result: ShotResult,
@@ -567,6 +1472,8 @@ export function computeDetailedShot(
   radialVelo: number,
   params: Params,
 ): import('./types').DetailedShot {
+  ({ tangentialVelo, radialVelo } = releaseVelocity(result, tangentialVelo, radialVelo, params));
+
   const speed = result.shotSpeed;
   const angleRad = result.hoodAngleDeg * Math.PI / 180;
   const cosA = Math.cos(angleRad);
@@ -574,16 +1481,20 @@ export function computeDetailedShot(
   const hSpeed = speed * cosA;
   const vLaunch = speed * sinA;
 
+  // Robot motion at the shooter, including the yaw-rate (ω × r) term
+  const frame = releaseFrame(result, params);
+  const sv = shooterVelocity(tangentialVelo, radialVelo, params, frame.heading, frame.bearing);
+
   // Use the optimized turret angle from the joint solver
   const turretAdjRad = result.turretAdjRad;
-  const effRadSpeed = hSpeed * Math.cos(turretAdjRad) + radialVelo;
+  const effRadSpeed = hSpeed * Math.cos(turretAdjRad) + sv.radial;
 
   // Lateral velocity: residual after turret compensation
-  const lateralVelo = hSpeed * Math.sin(turretAdjRad) + tangentialVelo;
+  const lateralVelo = hSpeed * Math.sin(turretAdjRad) + sv.tangential;
 
   const range = result.range;
   const flightTime = result.flightTime;
-  const shooterZ = params.shooterZ;
+  const shooterZ = result.launchZ;
   const targetZ = params.targetZ;
   const ceilingHeight = params.ceilingHeight;
   const drag = dragFromParams(params);
@@ -601,62 +1512,16 @@ export function computeDetailedShot(
   let xApex: number;
   let zApex: number;
 
-  if (drag.enabled) {
-    // ── RK4-integrated trajectory ───────────────────────────
-    const DT = 0.002;
-    const k = drag.k;
-    trajectory = [];
-
-    let x = 0, y = 0, z = 0;
-    let vx = effRadSpeed, vy = lateralVelo, vz = vLaunch;
-    let t = 0;
-    let maxZ = 0;
-    tApex = 0;
-    xApex = 0;
-
-    // Record launch point
-    trajectory.push({ x: 0, z: shooterZ, y: 0, t: 0 });
-
-    const deriv = (
-      _vx: number, _vy: number, _vz: number,
-    ): [number, number, number, number, number, number] => {
-      const spd = Math.sqrt(_vx * _vx + _vy * _vy + _vz * _vz);
-      const d = k * spd;
-      return [_vx, _vy, _vz, -d * _vx, -d * _vy, -GRAVITY - d * _vz];
-    };
-
-    // Sample roughly 60 evenly-spaced trajectory points by time
-    const sampleInterval = flightTime / 60;
-    let nextSample = sampleInterval;
-
-    while (t < flightTime + DT) {
-      // RK4 step
-      const [dx1, dy1, dz1, dvx1, dvy1, dvz1] = deriv(vx, vy, vz);
-      const [dx2, dy2, dz2, dvx2, dvy2, dvz2] = deriv(vx + dvx1 * DT / 2, vy + dvy1 * DT / 2, vz + dvz1 * DT / 2);
-      const [dx3, dy3, dz3, dvx3, dvy3, dvz3] = deriv(vx + dvx2 * DT / 2, vy + dvy2 * DT / 2, vz + dvz2 * DT / 2);
-      const [dx4, dy4, dz4, dvx4, dvy4, dvz4] = deriv(vx + dvx3 * DT, vy + dvy3 * DT, vz + dvz3 * DT);
-
-      x  += DT / 6 * (dx1  + 2 * dx2  + 2 * dx3  + dx4);
-      y  += DT / 6 * (dy1  + 2 * dy2  + 2 * dy3  + dy4);
-      z  += DT / 6 * (dz1  + 2 * dz2  + 2 * dz3  + dz4);
-      vx += DT / 6 * (dvx1 + 2 * dvx2 + 2 * dvx3 + dvx4);
-      vy += DT / 6 * (dvy1 + 2 * dvy2 + 2 * dvy3 + dvy4);
-      vz += DT / 6 * (dvz1 + 2 * dvz2 + 2 * dvz3 + dvz4);
-      t  += DT;
-
-      if (z > maxZ) { maxZ = z; tApex = t; xApex = x; }
-
-      // Record evenly-spaced samples
-      if (t >= nextSample || t >= flightTime) {
-        trajectory.push({ x, z: shooterZ + z, y, t });
-        nextSample += sampleInterval;
-      }
-    }
-
-    vxTarget = vx;
-    vzTarget = vz;
-    vyTarget = vy;
-    zApex = shooterZ + maxZ;
+  if (isIntegrated(drag)) {
+    // ── Numerically integrated trajectory ───────────────────
+    const sim = sampleTrajectory(effRadSpeed, lateralVelo, vLaunch, turretAdjRad, flightTime, shooterZ, drag);
+    trajectory = sim.trajectory;
+    vxTarget = sim.vx;
+    vzTarget = sim.vz;
+    vyTarget = sim.vy;
+    tApex = sim.tApex;
+    xApex = sim.xApex;
+    zApex = sim.zApex;
   } else {
     // ── Closed-form (vacuum) trajectory ─────────────────────
     const steps = 60;
@@ -678,9 +1543,9 @@ export function computeDetailedShot(
     zApex = result.apexHeight;
   }
 
-  // Generate vacuum comparison trajectory when drag is active
+  // Generate vacuum comparison trajectory when drag or spin is active
   let vacuumTrajectory: import('./types').TrajectoryPoint[] | undefined;
-  if (drag.enabled) {
+  if (isIntegrated(drag)) {
     // Use the same flight-time span as the drag trajectory so arcs are
     // visually comparable.  The vacuum ball will overshoot the target.
     const vacSteps = 60;
@@ -694,14 +1559,61 @@ export function computeDetailedShot(
     }
   }
 
+  // Drag + spin: also show the same launch with drag only.  (With drag
+  // off, the vacuum overlay above already is the no-spin arc.)
+  let noSpinTrajectory: import('./types').TrajectoryPoint[] | undefined;
+  if (drag.enabled && drag.spin > 0) {
+    noSpinTrajectory = sampleTrajectory(
+      effRadSpeed, lateralVelo, vLaunch, turretAdjRad,
+      flightTime, shooterZ, { ...drag, spin: 0 },
+    ).trajectory;
+  }
+
+  const mech = mechanismFromParams(params);
+
   return {
     speed, angleRad, hoodAngleDeg: result.hoodAngleDeg,
     hSpeed, vLaunch, turretAdjRad, effRadSpeed,
     range, flightTime, shooterZ, targetZ, ceilingHeight,
+    hub: hubFromParams(params),
+    bearing: result.bearing,
+    ballRadius: drag.radius,
+    rimClearance: result.rimClearance,
+    ...(params.targetType === 'ground' && {
+      landingZone: landingZoneFromParams(params) ?? undefined,
+      landing: result.landing,
+      landingMargin: result.landingMargin,
+      landingSpread: landingSpread(result, params),
+    }),
+    jacobian: result.jacobian,
+    tolerance: shotTolerance(result),
+    shooterMount: params.shooterMount,
+    chassisHeading: result.headingDeg !== undefined ? result.headingDeg * Math.PI / 180 : result.bearing,
+    ...(result.turretAngleDeg !== undefined && { turretAngleDeg: result.turretAngleDeg }),
+    robotLength: params.robotLength,
+    robotWidth: params.robotWidth,
+    exitOffsetX: result.exitOffsetX,
+    exitOffsetY: result.exitOffsetY,
+    releaseOffsetX: result.releaseOffsetX,
+    releaseOffsetY: result.releaseOffsetY,
+    launchX: params.targetX - range * Math.cos(result.bearing),
+    launchY: params.targetY - range * Math.sin(result.bearing),
+    obstacles: obstaclesFromParams(params),
+    overheadZones: overheadZonesFromParams(params),
+    latency: params.latency,
     tangentialVelo, radialVelo,
+    yawRateDeg: params.yawRate,
+    flywheelRpm: exitSpeedToRpm(speed, mech),
+    hoodSetpoint: angleToHood(result.hoodAngleDeg, mech),
+    hoodUnit: mech.hoodUnit,
+    yawTangential: sv.tangential - tangentialVelo,
     dragEnabled: drag.enabled,
+    spinRpm: params.spinRpm,
+    airDensity: airDensityFromParams(params),
+    gamePiece: params.gamePiece,
     trajectory,
     vacuumTrajectory,
+    noSpinTrajectory,
     vxLaunch, vzLaunch, vyLaunch,
     vxTarget, vzTarget, vyTarget,
     tApex, xApex, zApex,
@@ -709,3 +1621,43 @@ export function computeDetailedShot(
     vyAtTarget: result.vyAtTarget,
   };
 }
+
+/**
+ * Fly a second game piece with the same setpoint (launch velocity, heading
+ * and backspin) as a detailed shot, for the modal comparison overlay.
+ * Integrates until the piece descends through the target height or hits
+ * the floor.
+ */
+export function computePieceComparison(
+  shot: import('./types').DetailedShot, piece: GamePiece, params: Params,
+): PieceComparison {
+  const MAX_T = 5.0;
+  const drag = dragForPiece(params, piece);
+  const sampleDt = shot.flightTime / 60;
+  const targetDz = shot.targetZ - shot.shooterZ;
+
+  const trajectory: import('./types').TrajectoryPoint[] = [{ x: 0, z: shot.shooterZ, y: 0, t: 0 }];
+  let rangeError: number | null = null;
+  let next = sampleDt;
+
+  const y0 = [0, 0, 0, shot.vxLaunch, shot.vyLaunch, shot.vzLaunch];
+  integrate(ballDerivative(drag, shot.turretAdjRad), y0, MAX_T, drag.tol, step => {
+    const tTarget = locateEvent(step, y => targetDz - y[2]);
+    const tFloor = locateEvent(step, y => -shot.shooterZ - y[2]);
+    const tEnd = Math.min(tTarget ?? Infinity, tFloor ?? Infinity, step.t1);
+
+    for (; next < tEnd; next += sampleDt) {
+      const [x, y, z] = step.at(next);
+      trajectory.push({ x, z: shot.shooterZ + z, y, t: next });
+    }
+    if (tEnd === step.t1) return false;
+
+    // Descended through the target height (only counts after the apex) or hit the floor
+    const [x, y, z, , , vz] = step.at(tEnd);
+    trajectory.push({ x, z: shot.shooterZ + z, y, t: tEnd });
+    if (tEnd === tTarget && vz < 0) rangeError = x - shot.range;
+    return true;
+  });
+
+  return { name: piece.name, trajectory, rangeError };
+}
@@ -0,0 +1,68 @@
+// ═══════════════════════════════════════════════════════════════
+//  Rejection reasons — which constraint a failed shot ran into
+// ═══════════════════════════════════════════════════════════════
+//
+//  validateAndBuildResult checks a candidate shot constraint by constraint
+//  and stops at the first one it fails, reporting how far past the limit
+//  it was.  The reasons, in check order:
+//
+//    tooClose       exit point within 0.3 m of the target       (m short)
+//    noConvergence  Newton found no shot toward the target
+//    groundHit      ball lands short of the target
+//    heightError    misses the target height by more than 5 cm  (m over)
+//    ceiling        apex above the ceiling / apex cap           (m over)
+//    descent        not descending fast enough at the target    (m/s over)
+//    lateralDrift   drifts sideways past the drift limit        (m over)
+//    rim            touches the hub rim or funnel wall          (m overlap)
+//    landing        touches down or rolls out of the zone       (m outside)
+//    obstacle       hits a field obstacle or overhead zone      (m overlap)
+//    turret         turret heading past a stop                  (° past)
+//
+//  A position tries several candidates; the one that got furthest down
+//  the list (then the smallest margin) names the limiting constraint.
+// ═══════════════════════════════════════════════════════════════
+
+import type { RejectReason, ShotRejection, ShotResult } from './types';
+
+/** Reasons in check order, with their labels and margin units. */
+export const REJECT_REASONS: { reason: RejectReason; label: string; unit: string }[] = [
+  { reason: 'tooClose',      label: 'Too Close',         unit: 'm' },
+  { reason: 'noConvergence', label: 'No Solution',       unit: '' },
+  { reason: 'groundHit',     label: 'Lands Short',       unit: '' },
+  { reason: 'heightError',   label: 'Height Miss',       unit: 'm' },
+  { reason: 'ceiling',       label: 'Ceiling',           unit: 'm' },
+  { reason: 'descent',       label: 'Too Flat',          unit: 'm/s' },
+  { reason: 'lateralDrift',  label: 'Lateral Drift',     unit: 'm' },
+  { reason: 'rim',           label: 'Hits Rim',          unit: 'm' },
+  { reason: 'landing',       label: 'Misses Zone',       unit: 'm' },
+  { reason: 'obstacle',      label: 'Obstacle',          unit: 'm' },
+  { reason: 'turret',        label: 'Turret Stop',       unit: '°' },
+];
+
+const STAGE = new Map(REJECT_REASONS.map((r, i) => [r.reason, i]));
+
+/** Whether a solve outcome is a rejection rather than a shot. */
+export function isRejection(o: ShotResult | ShotRejection): o is ShotRejection {
+  return 'reason' in o;
+}
+
+/** Of two rejections, the one that got further through the checks (then the smaller margin). */
+export function closerRejection(a: ShotRejection | null, b: ShotRejection): ShotRejection {
+  if (!a) return b;
+  const sa = STAGE.get(a.reason)!, sb = STAGE.get(b.reason)!;
+  if (sa !== sb) return sb > sa ? b : a;
+  return (b.margin ?? Infinity) < (a.margin ?? Infinity) ? b : a;
+}
+
+/** Short label for a reason, e.g. "Hits Rim". */
+export function rejectionLabel(reason: RejectReason): string {
+  return REJECT_REASONS[STAGE.get(reason)!].label;
+}
+
+/** A rejection as text, e.g. "Hits Rim by 0.03 m". */
+export function formatRejection(rej: ShotRejection): string {
+  const { label, unit } = REJECT_REASONS[STAGE.get(rej.reason)!];
+  if (rej.margin === undefined || !unit) return label;
+  const digits = unit === '°' ? 0 : 2;
+  return `${label} by ${rej.margin.toFixed(digits)}${unit === '°' ? '' : ' '}${unit}`;
+}
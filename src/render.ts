@@ -2,10 +2,20 @@
 //  Renderers — field map (heatmap) + range chart
 // ═══════════════════════════════════════════════════════════════
 
-import { FIELD_LENGTH, FIELD_WIDTH, DISPLAY_BUFFER } from './constants';
-import { speedColor, angleColor, descentColor } from './drawing';
+import { activeField, allianceTargets, displayExtent } from './field';
+import {
+  speedColor, angleColor, descentColor, probabilityColor, toleranceColor, familyCountColor,
+  blockedColor, turretLimitColor, turretColor, unreachableColor, rejectionColor, neutralColor, drawArrow,
+} from './drawing';
+import { obstaclesFromParams, overheadZonesFromParams, obstacleOutline } from './obstacles';
+import { landingZoneFromParams } from './landing';
+import { shotTolerance } from './sensitivity';
+import { REJECT_REASONS } from './rejection';
 import { state } from './state';
-import type { LayoutCache, RangeChartLayout, PanelPosition } from './types';
+import { mechanismFromParams, exitSpeedToRpm, angleToHood, formatHood } from './mechanism';
+import type {
+  LayoutCache, RangeChartLayout, PanelPosition, ColorScale, Params, ShotResult, ShotRejection, FieldDrawing,
+} from './types';
 
 // ── Layout & coordinate transforms ──────────────────────────
 
@@ -20,10 +30,9 @@ export function bindCanvas(c: HTMLCanvasElement): void {
 
 /** Recompute layout geometry for the main canvas. */
 export function computeLayout(): void {
-  const targetX = parseFloat(
-    (document.getElementById('targetX') as HTMLInputElement).value,
-  );
-  const displayFieldLength = Math.min(FIELD_LENGTH, targetX + DISPLAY_BUFFER);
+  const field = activeField();
+  const [displayFieldStart, displayEnd] = displayExtent(field, state.currentParams as Params);
+  const displayFieldLength = displayEnd - displayFieldStart;
 
   const rect = canvas.parentElement!.getBoundingClientRect();
   canvas.width = rect.width * devicePixelRatio;
@@ -37,15 +46,16 @@ export function computeLayout(): void {
   const availW = cw - pad - legendSpace - pad;
   const availH = ch - 2 * pad;
 
-  const scale = Math.min(availW / displayFieldLength, availH / FIELD_WIDTH);
+  const scale = Math.min(availW / displayFieldLength, availH / field.width);
   const fw = displayFieldLength * scale;
-  const fh = FIELD_WIDTH * scale;
+  const fh = field.width * scale;
   const ox = pad + (availW - fw) / 2;
   const oy = pad + (availH - fh) / 2;
 
   state.layoutCache = {
     cw, ch, pad, scale, fw, fh, ox, oy,
     legendX: ox + fw + 20,
+    displayFieldStart,
     displayFieldLength,
   };
 }
@@ -56,24 +66,226 @@ export function computeLayout(): void {
  * Canvas: (0,0) top-left, X right, Y down.
  */
 export function fieldToCanvas(fx: number, fy: number): [number, number] {
-  const { ox, scale, fw, oy } = state.layoutCache as LayoutCache;
+  const { ox, scale, fw, oy, displayFieldStart } = state.layoutCache as LayoutCache;
   return [
-    ox + fw - fx * scale,
+    ox + fw - (fx - displayFieldStart) * scale,
     oy + fy * scale,
   ];
 }
 
 export function canvasToField(cx: number, cy: number): [number, number] {
-  const { ox, oy, scale, fw } = state.layoutCache as LayoutCache;
+  const { ox, oy, scale, fw, displayFieldStart } = state.layoutCache as LayoutCache;
   return [
-    (fw - (cx - ox)) / scale,
+    displayFieldStart + (fw - (cx - ox)) / scale,
     (cy - oy) / scale,
   ];
 }
 
+/** Whether a field point lies in the shown part of the field. */
+export function inFieldView(fx: number, fy: number): boolean {
+  const { displayFieldStart, displayFieldLength } = state.layoutCache as LayoutCache;
+  return fx >= displayFieldStart && fx <= displayFieldStart + displayFieldLength
+    && fy >= 0 && fy <= activeField().width;
+}
+
+// ── Color Scales ────────────────────────────────────────────
+
+/**
+ * Build the color scale for the active color mode.  Speed and angle scales
+ * are expressed in physical units (m/s, °) or, when the Units selector is
+ * set to mechanism, in flywheel rpm and hood setpoint.
+ */
+function colorScale(
+  colorMode: string,
+  data: { minSpeed: number; maxSpeed: number; minAngle: number; maxAngle: number },
+): ColorScale {
+  if (colorMode === 'descent') {
+    // Fixed scale: 60° (top/green) → 15° (bottom/red)
+    return {
+      title: 'Descent', topLabel: '60\u00B0+', bottomLabel: '15\u00B0\u2212',
+      color: (r, a) => descentColor(r.descentAngleDeg, a),
+      gradient: (t, a) => descentColor(15 + t * (60 - 15), a),
+    };
+  }
+
+  if (colorMode === 'probability') {
+    // Fixed scale: 100% (top/green) → 0% (bottom/red)
+    return {
+      title: 'Make %', topLabel: '100%', bottomLabel: '0%',
+      color: (r, a) => probabilityColor(r.hitProbability ?? 0, a),
+      gradient: probabilityColor,
+    };
+  }
+
+  if (colorMode === 'families') {
+    // Discrete: 1 … 4+ solution families
+    return {
+      title: 'Solutions', topLabel: '4+', bottomLabel: '1',
+      color: (r, a) => familyCountColor(r.familyCount ?? 1, a),
+      gradient: (t, a) => familyCountColor(1 + Math.min(3, Math.floor(t * 4)), a),
+    };
+  }
+
+  if (colorMode === 'limiting') {
+    // Valid cells stay neutral; invalid ones take their rejection's color
+    // (drawn by the renderers, with swatches instead of a bar)
+    return {
+      title: 'Limiting', topLabel: '', bottomLabel: '',
+      color: (_, a) => neutralColor(a),
+      gradient: (_, a) => neutralColor(a),
+    };
+  }
+
+  if (colorMode === 'turret') {
+    // Fixed scale over the turret's travel: left stop (top) → right stop (bottom)
+    const p = state.currentParams as Params;
+    const lo = Math.max(p.turretMin, -360), hi = Math.min(p.turretMax, 360);
+    const fmt = (v: number) => v.toFixed(0) + '\u00B0';
+    return {
+      title: 'Turret', topLabel: fmt(hi), bottomLabel: fmt(lo),
+      color: (r, a) => turretColor(((r.turretAngleDeg ?? 0) - lo) / Math.max(1, hi - lo), a),
+      gradient: turretColor,
+    };
+  }
+
+  if (colorMode === 'speedTol' || colorMode === 'angleTol') {
+    // Fixed scales: ±1.5 m/s / ±3° or more (top/green) → 0 (bottom/red)
+    const speedTol = colorMode === 'speedTol';
+    const max = speedTol ? 1.5 : 3;
+    return {
+      title: speedTol ? 'Speed Tol.' : 'Angle Tol.',
+      topLabel: speedTol ? '\u00B11.5 m/s+' : '\u00B13\u00B0+',
+      bottomLabel: '0',
+      color: (r, a) => {
+        const tol = shotTolerance(r);
+        return toleranceColor((speedTol ? tol.speed : tol.angleDeg) / max, a);
+      },
+      gradient: toleranceColor,
+    };
+  }
+
+  const units = (document.getElementById('units') as HTMLSelectElement).value;
+  const mech = units === 'mechanism' ? mechanismFromParams(state.currentParams as Params) : null;
+
+  let value: (r: ShotResult) => number;
+  let lo: number, hi: number, fmt: (v: number) => string, title: string;
+  if (colorMode === 'speed') {
+    const conv = mech ? (v: number) => exitSpeedToRpm(v, mech) : (v: number) => v;
+    value = r => conv(r.shotSpeed);
+    lo = conv(data.minSpeed);
+    hi = conv(data.maxSpeed);
+    fmt = mech ? v => v.toFixed(0) + ' rpm' : v => v.toFixed(1) + ' m/s';
+    title = mech ? 'Flywheel' : 'Speed';
+  } else {
+    const conv = mech ? (v: number) => angleToHood(v, mech) : (v: number) => v;
+    value = r => conv(r.hoodAngleDeg);
+    lo = conv(data.minAngle);
+    hi = conv(data.maxAngle);
+    fmt = mech ? v => formatHood(v, mech.hoodUnit) : v => v.toFixed(1) + '\u00B0';
+    title = mech ? 'Hood' : 'Angle';
+  }
+  // A hood table may run backwards (setpoint falls as angle rises)
+  if (lo > hi) [lo, hi] = [hi, lo];
+
+  const colorFn = colorMode === 'speed' ? speedColor : angleColor;
+  const range = hi - lo;
+  const eps = colorMode === 'speed' && mech ? 1 : 0.01;
+  return {
+    title, topLabel: fmt(hi), bottomLabel: fmt(lo),
+    color: (r, a) => colorFn(range > eps ? (value(r) - lo) / range : 0.5, a),
+    gradient: colorFn,
+  };
+}
+
+/** Swatches for the limiting-constraint mode: valid, then each reason present in check order. */
+function limitingSwatches(rejections: (ShotRejection | null)[]): [string, string][] {
+  const present = new Set(rejections.map(r => r?.reason));
+  return [
+    [neutralColor(0.8), 'Valid'],
+    ...REJECT_REASONS.filter(r => present.has(r.reason))
+      .map(({ reason, label }): [string, string] => [rejectionColor(reason, 0.8), label]),
+  ];
+}
+
+/** Draw flat legend swatches, one per row, from (x, y) down. */
+function drawSwatches(swatches: [string, string][], x: number, y: number): void {
+  ctx.font = '13px sans-serif';
+  ctx.textAlign = 'left';
+  swatches.forEach(([color, label], i) => {
+    const sy = y + i * 18;
+    ctx.fillStyle = color;
+    ctx.fillRect(x, sy, 18, 12);
+    ctx.fillStyle = '#c9d1d9';
+    ctx.fillText(label, x + 24, sy + 11);
+  });
+}
+
+/** Draw a vertical legend bar for a color scale (top = high end). */
+function drawLegend(scale: ColorScale, x: number, y: number, w: number, h: number): void {
+  for (let i = 0; i < h; i++) {
+    ctx.fillStyle = scale.gradient(1 - i / h, 0.9);
+    ctx.fillRect(x, y + i, w, 1);
+  }
+
+  ctx.strokeStyle = '#30363d';
+  ctx.lineWidth = 1;
+  ctx.strokeRect(x, y, w, h);
+
+  ctx.fillStyle = '#c9d1d9';
+  ctx.font = '13px sans-serif';
+  ctx.textAlign = 'left';
+  ctx.fillText(scale.topLabel, x + w + 6, y + 12);
+  ctx.fillText(scale.bottomLabel, x + w + 6, y + h);
+  ctx.fillText(scale.title, x - 2, y - 6);
+}
+
+
 // ── Field Map Renderer ──────────────────────────────────────
 
+const ALLIANCE_COLORS = { blue: '#58a6ff', red: '#f85149' };
+
+/** Trace a polyline (closed for polygons) in field coordinates. */
+function traceFieldPath(points: [number, number][], close: boolean): void {
+  ctx.beginPath();
+  points.forEach(([x, y], i) => {
+    const [px, py] = fieldToCanvas(x, y);
+    if (i === 0) ctx.moveTo(px, py); else ctx.lineTo(px, py);
+  });
+  if (close) ctx.closePath();
+}
+
+/** Draw one layout drawing primitive (sizes in meters, widths in px). */
+function drawFieldDrawing(d: FieldDrawing, scale: number): void {
+  if (d.type === 'label') {
+    const [px, py] = fieldToCanvas(d.x, d.y);
+    ctx.fillStyle = d.color ?? '#8b949e';
+    ctx.font = '11px sans-serif';
+    ctx.textAlign = 'center';
+    ctx.fillText(d.text, px, py + 4);
+    return;
+  }
+
+  if (d.type === 'circle') {
+    const [px, py] = fieldToCanvas(d.x, d.y);
+    ctx.beginPath();
+    ctx.arc(px, py, d.radius * scale, 0, Math.PI * 2);
+  } else {
+    traceFieldPath(d.points, d.type === 'polygon');
+  }
+  if (d.type !== 'line' && d.fill) {
+    ctx.fillStyle = d.fill;
+    ctx.fill();
+  }
+  ctx.setLineDash(d.dash ?? []);
+  ctx.strokeStyle = d.color ?? '#8b949e';
+  ctx.lineWidth = d.width ?? 1;
+  ctx.stroke();
+  ctx.setLineDash([]);
+}
+
 export function renderFieldMap(): void {
+  const field = activeField();
+  const p = state.currentParams as Params;
   const lc = state.layoutCache as LayoutCache;
   const { cw, ch, scale, fw, fh, ox, oy, legendX } = lc;
   const colorMode = (document.getElementById('colorMode') as HTMLSelectElement).value;
@@ -87,49 +299,68 @@ export function renderFieldMap(): void {
   // ── Heatmap cells ──
   const hd = state.heatmapData;
   if (hd) {
-    const { cols, rows, res, results, minSpeed, maxSpeed, minAngle, maxAngle } = hd;
+    const { cols, rows, res, x0, results } = hd;
+    const cs = colorScale(colorMode, hd);
+    const limiting = colorMode === 'limiting';
     const cellW = res * scale;
     const cellH = res * scale;
 
     for (let r = 0; r < rows; r++) {
       for (let c = 0; c < cols; c++) {
         const result = results[r][c];
-        if (!result) continue;
+        const rejection = limiting ? hd.rejections[r][c] : null;
+        if (!result && !rejection && !hd.blocked[r][c] && !hd.turretLimited[r][c] && !hd.unreachable[r][c]) continue;
 
-        const fx = (c + 0.5) * res;
+        const fx = x0 + (c + 0.5) * res;
         const fy = (r + 0.5) * res;
         const [px, py] = fieldToCanvas(fx, fy);
 
-        let color: string;
-        if (colorMode === 'descent') {
-          color = descentColor(result.descentAngleDeg, 0.8);
-        } else if (colorMode === 'speed') {
-          const range = maxSpeed - minSpeed;
-          const t = range > 0.01 ? (result.shotSpeed - minSpeed) / range : 0.5;
-          color = speedColor(t, 0.8);
-        } else {
-          const range = maxAngle - minAngle;
-          const t = range > 0.01 ? (result.hoodAngleDeg - minAngle) / range : 0.5;
-          color = angleColor(t, 0.8);
-        }
-
-        ctx.fillStyle = color;
+        ctx.fillStyle = result ? cs.color(result, 0.8)
+          : rejection ? rejectionColor(rejection.reason, 0.7)
+          : hd.blocked[r][c] ? blockedColor(0.6)
+          : hd.turretLimited[r][c] ? turretLimitColor(0.6) : unreachableColor(0.55);
         ctx.fillRect(px - cellW / 2, py - cellH / 2, cellW, cellH);
       }
     }
 
+    // Turretless robots: a heading glyph (tick from the cell center toward
+    // the chassis heading) on a sub-grid about every 0.6 m
+    if (p.shooterMount === 'fixed') {
+      const step = Math.max(1, Math.round(0.6 / res));
+      const len = Math.min(0.45 * step * res * scale, 18);
+      ctx.strokeStyle = 'rgba(13, 17, 23, 0.85)';
+      ctx.fillStyle = 'rgba(13, 17, 23, 0.85)';
+      ctx.lineWidth = 1.5;
+      for (let r = Math.floor(step / 2); r < rows; r += step) {
+        for (let c = Math.floor(step / 2); c < cols; c += step) {
+          const heading = results[r][c]?.headingDeg;
+          if (heading === undefined) continue;
+          const [px, py] = fieldToCanvas(x0 + (c + 0.5) * res, (r + 0.5) * res);
+          const h = heading * Math.PI / 180;
+          const ux = -Math.cos(h), uy = Math.sin(h); // field +x points left on the canvas
+          ctx.beginPath();
+          ctx.moveTo(px - ux * len / 2, py - uy * len / 2);
+          ctx.lineTo(px + ux * len / 2, py + uy * len / 2);
+          ctx.stroke();
+          ctx.beginPath();
+          ctx.arc(px + ux * len / 2, py + uy * len / 2, 2, 0, Math.PI * 2);
+          ctx.fill();
+        }
+      }
+    }
   }
 
   // ── Grid lines every 1m ──
-  const dfl = lc.displayFieldLength;
+  const x0 = lc.displayFieldStart;
+  const x1 = x0 + lc.displayFieldLength;
   ctx.strokeStyle = 'rgba(60, 100, 60, 0.35)';
   ctx.lineWidth = 0.5;
-  for (let x = 0; x <= dfl; x++) {
+  for (let x = Math.ceil(x0); x <= x1; x++) {
     const [px] = fieldToCanvas(x, 0);
     ctx.beginPath(); ctx.moveTo(px, oy); ctx.lineTo(px, oy + fh); ctx.stroke();
   }
-  for (let y = 0; y <= FIELD_WIDTH; y++) {
-    const [, py] = fieldToCanvas(0, y);
+  for (let y = 0; y <= field.width; y++) {
+    const [, py] = fieldToCanvas(x0, y);
     ctx.beginPath(); ctx.moveTo(ox, py); ctx.lineTo(ox + fw, py); ctx.stroke();
   }
 
@@ -138,42 +369,143 @@ export function renderFieldMap(): void {
   ctx.lineWidth = 2;
   ctx.strokeRect(ox, oy, fw, fh);
 
-  // ── Alliance wall (Blue, right side, field x=0) ──
-  const [bx] = fieldToCanvas(0, 0);
-  ctx.fillStyle = 'rgba(31, 111, 235, 0.3)';
-  ctx.fillRect(bx - 4, oy, 8, fh);
-
-  // ── Center line (only if within display range) ──
-  const halfField = FIELD_LENGTH / 2;
-  if (halfField <= dfl) {
-    const [mx] = fieldToCanvas(halfField, 0);
-    ctx.setLineDash([6, 4]);
-    ctx.strokeStyle = 'rgba(139, 148, 158, 0.3)';
-    ctx.lineWidth = 1;
-    ctx.beginPath(); ctx.moveTo(mx, oy); ctx.lineTo(mx, oy + fh); ctx.stroke();
-    ctx.setLineDash([]);
+  // ── Alliance walls (only those within display range) ──
+  const walls = field.allianceWalls.filter(w => w.x >= x0 && w.x <= x1);
+  for (const w of walls) {
+    const [wx] = fieldToCanvas(w.x, 0);
+    ctx.fillStyle = w.alliance === 'blue' ? 'rgba(31, 111, 235, 0.3)' : 'rgba(218, 54, 51, 0.3)';
+    ctx.fillRect(wx - 4, oy, 8, fh);
   }
 
-  // ── Hub target marker ──
-  const tgtX = parseFloat((document.getElementById('targetX') as HTMLInputElement).value);
-  const tgtY = parseFloat((document.getElementById('targetY') as HTMLInputElement).value);
-  const [hx, hy] = fieldToCanvas(tgtX, tgtY);
-
+  // ── Layout drawings, keep-out zones and field obstacles, clipped to the shown field ──
+  ctx.save();
   ctx.beginPath();
-  ctx.arc(hx, hy, 8, 0, Math.PI * 2);
-  ctx.fillStyle = 'rgba(88, 166, 255, 0.6)';
-  ctx.fill();
-  ctx.strokeStyle = '#58a6ff';
-  ctx.lineWidth = 2;
-  ctx.stroke();
+  ctx.rect(ox, oy, fw, fh);
+  ctx.clip();
+  for (const d of field.drawings) drawFieldDrawing(d, scale);
+
+  // Keep-out zones: tinted with a dotted outline
+  ctx.setLineDash([2, 3]);
+  for (const k of field.keepOut) {
+    traceFieldPath(obstacleOutline(k), true);
+    ctx.fillStyle = 'rgba(210, 153, 34, 0.12)';
+    ctx.fill();
+    ctx.strokeStyle = '#d29922aa';
+    ctx.lineWidth = 1.5;
+    ctx.stroke();
+  }
+  ctx.setLineDash([]);
+
+  // Targets not aimed at, as faint alliance-colored rings
+  const ground = p.targetType === 'ground';
+  const aimed = ground ? []
+    : p.targetMode === 'nearest' ? allianceTargets(field, p.alliance)
+    : [{ x: p.targetX, y: p.targetY }];
+  for (const t of field.targets) {
+    if (aimed.some(a => Math.hypot(t.x - a.x, t.y - a.y) < 0.01)) continue;
+    const [px, py] = fieldToCanvas(t.x, t.y);
+    ctx.beginPath();
+    ctx.arc(px, py, 8, 0, Math.PI * 2);
+    ctx.strokeStyle = ALLIANCE_COLORS[t.alliance] + '66';
+    ctx.lineWidth = 1.5;
+    ctx.stroke();
+  }
 
-  // Crosshair
-  ctx.beginPath();
-  ctx.moveTo(hx - 12, hy); ctx.lineTo(hx + 12, hy);
-  ctx.moveTo(hx, hy - 12); ctx.lineTo(hx, hy + 12);
-  ctx.strokeStyle = '#58a6ff';
-  ctx.lineWidth = 1;
-  ctx.stroke();
+  ctx.font = '11px sans-serif';
+  ctx.textAlign = 'center';
+  for (const o of obstaclesFromParams(state.currentParams as Params)) {
+    const outline = obstacleOutline(o).map(([x, y]) => fieldToCanvas(x, y));
+    ctx.beginPath();
+    outline.forEach(([px, py], i) => (i === 0 ? ctx.moveTo(px, py) : ctx.lineTo(px, py)));
+    ctx.closePath();
+    ctx.fillStyle = 'rgba(139, 148, 158, 0.35)';
+    ctx.fill();
+    ctx.strokeStyle = '#8b949e';
+    ctx.lineWidth = 1.5;
+    ctx.stroke();
+    const lx = outline.reduce((s, q) => s + q[0], 0) / outline.length;
+    const ly = outline.reduce((s, q) => s + q[1], 0) / outline.length;
+    ctx.fillStyle = '#c9d1d9';
+    ctx.fillText(o.height.toFixed(2) + 'm', lx, ly + 4);
+  }
+  // Overhead zones: dashed outline, labeled with the clearance underneath
+  ctx.setLineDash([5, 3]);
+  for (const o of overheadZonesFromParams(state.currentParams as Params)) {
+    const outline = obstacleOutline(o).map(([x, y]) => fieldToCanvas(x, y));
+    ctx.beginPath();
+    outline.forEach(([px, py], i) => (i === 0 ? ctx.moveTo(px, py) : ctx.lineTo(px, py)));
+    ctx.closePath();
+    ctx.fillStyle = 'rgba(248, 81, 73, 0.12)';
+    ctx.fill();
+    ctx.strokeStyle = '#f85149aa';
+    ctx.lineWidth = 1.5;
+    ctx.stroke();
+    const lx = outline.reduce((s, q) => s + q[0], 0) / outline.length;
+    const ly = outline.reduce((s, q) => s + q[1], 0) / outline.length;
+    ctx.fillStyle = '#f85149';
+    ctx.fillText('\u2264' + o.height.toFixed(2) + 'm', lx, ly + 4);
+  }
+  ctx.setLineDash([]);
+  ctx.restore();
+
+  // ── Hub target markers (every target aimed at), in the alliance color ──
+  const markerColor = ALLIANCE_COLORS[p.alliance === 'red' ? 'red' : 'blue'];
+
+  // A ground target: the landing zone outline, with the aim point's crosshair
+  const zone = ground ? landingZoneFromParams(p) : null;
+  if (zone) {
+    ctx.setLineDash([6, 3]);
+    traceFieldPath(obstacleOutline(zone), true);
+    ctx.fillStyle = markerColor + '22';
+    ctx.fill();
+    ctx.strokeStyle = markerColor;
+    ctx.lineWidth = 2;
+    ctx.stroke();
+    ctx.setLineDash([]);
+    const [hx, hy] = fieldToCanvas(p.targetX, p.targetY);
+    ctx.beginPath();
+    ctx.moveTo(hx - 10, hy); ctx.lineTo(hx + 10, hy);
+    ctx.moveTo(hx, hy - 10); ctx.lineTo(hx, hy + 10);
+    ctx.lineWidth = 1;
+    ctx.stroke();
+  }
+  for (const t of aimed) {
+    const [hx, hy] = fieldToCanvas(t.x, t.y);
+
+    ctx.beginPath();
+    ctx.arc(hx, hy, 8, 0, Math.PI * 2);
+    ctx.fillStyle = markerColor + '99';
+    ctx.fill();
+    ctx.strokeStyle = markerColor;
+    ctx.lineWidth = 2;
+    ctx.stroke();
+
+    // Crosshair
+    ctx.beginPath();
+    ctx.moveTo(hx - 12, hy); ctx.lineTo(hx + 12, hy);
+    ctx.moveTo(hx, hy - 12); ctx.lineTo(hx, hy + 12);
+    ctx.lineWidth = 1;
+    ctx.stroke();
+  }
+
+  // ── Field-frame robot velocity: one arrow in the field's top-left corner,
+  //    as far as the robot drives in half a second ──
+  const vSpeed = Math.hypot(p.fieldVx, p.fieldVy);
+  if (p.velocityFrame === 'field' && vSpeed > 0.05) {
+    const len = Math.max(30, vSpeed * 0.5 * scale);
+    const ux = -p.fieldVx / vSpeed, uy = p.fieldVy / vSpeed; // field +x points left on the canvas
+    const ax = ox + 20 + len / 2, ay = oy + 20 + len / 2;
+    ctx.beginPath();
+    ctx.arc(ax, ay, len / 2 + 10, 0, Math.PI * 2);
+    ctx.fillStyle = 'rgba(13, 17, 23, 0.6)';
+    ctx.fill();
+    drawArrow(ctx, ax - ux * len / 2, ay - uy * len / 2, ax + ux * len / 2, ay + uy * len / 2,
+      '#e6edf3', null, 9);
+    ctx.fillStyle = '#e6edf3';
+    ctx.font = '11px sans-serif';
+    ctx.textAlign = 'center';
+    ctx.fillText(vSpeed.toFixed(1) + ' m/s', ax, ay + len / 2 + 24);
+  }
 
   // ── Axis labels ──
   ctx.fillStyle = '#8b949e';
@@ -183,7 +515,7 @@ export function renderFieldMap(): void {
   ctx.textAlign = 'center';
   const xTickPx = 2 * scale;
   const fieldXStep = xTickPx < 36 ? 4 : 2;
-  for (let x = 0; x <= dfl; x += fieldXStep) {
+  for (let x = Math.ceil(x0 / fieldXStep) * fieldXStep; x <= x1; x += fieldXStep) {
     const [px] = fieldToCanvas(x, 0);
     ctx.fillText(x + 'm', px, oy + fh + 18);
   }
@@ -192,62 +524,36 @@ export function renderFieldMap(): void {
   ctx.textAlign = 'left';
   const yTickPx = 2 * scale;
   const fieldYStep = yTickPx < 36 ? 4 : 2;
-  for (let y = 0; y <= FIELD_WIDTH; y += fieldYStep) {
-    const [px, py] = fieldToCanvas(0, y);
+  for (let y = 0; y <= field.width; y += fieldYStep) {
+    const [px, py] = fieldToCanvas(x0, y);
     ctx.fillText(y + 'm', px + 12, py + 5);
   }
 
-  // Alliance label
+  // Alliance labels
   ctx.font = 'bold 13px sans-serif';
   ctx.textAlign = 'center';
-  ctx.fillStyle = '#58a6ff';
-  ctx.fillText('BLUE', bx, oy - 8);
+  for (const w of walls) {
+    ctx.fillStyle = ALLIANCE_COLORS[w.alliance];
+    ctx.fillText(w.alliance.toUpperCase(), fieldToCanvas(w.x, 0)[0], oy - 8);
+  }
 
   // ── Legend ──
+  if (hd && colorMode === 'limiting') {
+    // Swatches only: valid, each limiting constraint, no room
+    const swatches = limitingSwatches(hd.rejections.flat());
+    if (hd.unreachable.some(row => row.includes(true))) swatches.push([unreachableColor(0.55), 'No room']);
+    drawSwatches(swatches, legendX, oy);
+    return;
+  }
   if (hd && hd.validCount > 0) {
-    const lx = legendX;
-    const ly = oy;
-    const lw = 18;
-    const lh = fh;
-
-    if (colorMode === 'descent') {
-      // Fixed-scale legend: 60° (top/green) → 15° (bottom/red)
-      for (let i = 0; i < lh; i++) {
-        const deg = 60 - (i / lh) * (60 - 15); // top=60°, bottom=15°
-        ctx.fillStyle = descentColor(deg, 0.9);
-        ctx.fillRect(lx, ly + i, lw, 1);
-      }
-    } else {
-      const colorFn = colorMode === 'speed' ? speedColor : angleColor;
-      for (let i = 0; i < lh; i++) {
-        const t = 1 - i / lh;
-        ctx.fillStyle = colorFn(t, 0.9);
-        ctx.fillRect(lx, ly + i, lw, 1);
-      }
-    }
-
-    ctx.strokeStyle = '#30363d';
-    ctx.lineWidth = 1;
-    ctx.strokeRect(lx, ly, lw, lh);
-
-    ctx.fillStyle = '#c9d1d9';
-    ctx.font = '13px sans-serif';
-    ctx.textAlign = 'left';
-
-    if (colorMode === 'descent') {
-      ctx.fillText('60\u00B0+', lx + lw + 6, ly + 12);
-      ctx.fillText('15\u00B0\u2212', lx + lw + 6, ly + lh);
-      ctx.fillText('Descent', lx - 2, ly - 6);
-    } else if (colorMode === 'speed') {
-      ctx.fillText(hd.maxSpeed.toFixed(1) + ' m/s', lx + lw + 6, ly + 12);
-      ctx.fillText(hd.minSpeed.toFixed(1) + ' m/s', lx + lw + 6, ly + lh);
-      ctx.fillText('Speed', lx - 2, ly - 6);
-    } else {
-      ctx.fillText(hd.maxAngle.toFixed(1) + '\u00B0', lx + lw + 6, ly + 12);
-      ctx.fillText(hd.minAngle.toFixed(1) + '\u00B0', lx + lw + 6, ly + lh);
-      ctx.fillText('Angle', lx - 2, ly - 6);
-    }
+    drawLegend(colorScale(colorMode, hd), legendX, oy, 18, fh);
   }
+  // Flat swatches for the non-shot cell states, stacked under the bar
+  const swatches: [string, string][] = [];
+  if (hd && hd.blocked.some(row => row.includes(true))) swatches.push([blockedColor(0.6), 'Blocked']);
+  if (hd && hd.turretLimited.some(row => row.includes(true))) swatches.push([turretLimitColor(0.6), 'Turret stop']);
+  if (hd && hd.unreachable.some(row => row.includes(true))) swatches.push([unreachableColor(0.55), 'No room']);
+  drawSwatches(swatches, legendX, oy + fh + 8);
 }
 
 
@@ -265,6 +571,7 @@ export function renderRangeChart(): void {
 
   const { distances, tangentials, radials, panels } = rcd;
   const numPanels = radials.length;
+  const cs = colorScale(colorMode, rcd);
 
   // Layout
   const padTop = 24, padBottom = 48, padLeft = 80, padRight = 90;
@@ -312,22 +619,10 @@ export function renderRangeChart(): void {
     for (let ti = 0; ti < tangentials.length; ti++) {
       for (let di = 0; di < distances.length; di++) {
         const result = panel[ti][di];
-        if (!result) continue;
-
-        let color: string;
-        if (colorMode === 'descent') {
-          color = descentColor(result.descentAngleDeg, 0.85);
-        } else if (colorMode === 'speed') {
-          const range = rcd.maxSpeed - rcd.minSpeed;
-          const t = range > 0.01 ? (result.shotSpeed - rcd.minSpeed) / range : 0.5;
-          color = speedColor(t, 0.85);
-        } else {
-          const range = rcd.maxAngle - rcd.minAngle;
-          const t = range > 0.01 ? (result.hoodAngleDeg - rcd.minAngle) / range : 0.5;
-          color = angleColor(t, 0.85);
-        }
+        const rejection = colorMode === 'limiting' ? rcd.rejections[ri][ti][di] : null;
+        if (!result && !rejection) continue;
 
-        ctx.fillStyle = color;
+        ctx.fillStyle = result ? cs.color(result, 0.85) : rejectionColor(rejection!.reason, 0.75);
         const cellY = heatY + panelH - (ti + 1) * cellH;
         const cellX = padLeft + di * cellW;
         ctx.fillRect(cellX, cellY, cellW + 0.5, cellH + 0.5);
@@ -392,43 +687,10 @@ export function renderRangeChart(): void {
   const legendTop = panelPositions[0].heatY;
   const legendH = bottomY - legendTop;
 
-  if (rcd.validCount > 0 && legendH > 10) {
-    if (colorMode === 'descent') {
-      for (let i = 0; i < legendH; i++) {
-        const deg = 60 - (i / legendH) * (60 - 15);
-        ctx.fillStyle = descentColor(deg, 0.9);
-        ctx.fillRect(legendX, legendTop + i, legendW, 1);
-      }
-    } else {
-      const colorFn = colorMode === 'speed' ? speedColor : angleColor;
-      for (let i = 0; i < legendH; i++) {
-        const t = 1 - i / legendH;
-        ctx.fillStyle = colorFn(t, 0.9);
-        ctx.fillRect(legendX, legendTop + i, legendW, 1);
-      }
-    }
-
-    ctx.strokeStyle = '#30363d';
-    ctx.lineWidth = 1;
-    ctx.strokeRect(legendX, legendTop, legendW, legendH);
-
-    ctx.fillStyle = '#c9d1d9';
-    ctx.font = '13px sans-serif';
-    ctx.textAlign = 'left';
-
-    if (colorMode === 'descent') {
-      ctx.fillText('60\u00B0+', legendX + legendW + 6, legendTop + 12);
-      ctx.fillText('15\u00B0\u2212', legendX + legendW + 6, legendTop + legendH);
-      ctx.fillText('Descent', legendX - 2, legendTop - 6);
-    } else if (colorMode === 'speed') {
-      ctx.fillText(rcd.maxSpeed.toFixed(1) + ' m/s', legendX + legendW + 6, legendTop + 12);
-      ctx.fillText(rcd.minSpeed.toFixed(1) + ' m/s', legendX + legendW + 6, legendTop + legendH);
-      ctx.fillText('Speed', legendX - 2, legendTop - 6);
-    } else {
-      ctx.fillText(rcd.maxAngle.toFixed(1) + '\u00B0', legendX + legendW + 6, legendTop + 12);
-      ctx.fillText(rcd.minAngle.toFixed(1) + '\u00B0', legendX + legendW + 6, legendTop + legendH);
-      ctx.fillText('Angle', legendX - 2, legendTop - 6);
-    }
+  if (colorMode === 'limiting') {
+    drawSwatches(limitingSwatches(rcd.rejections.flat(2)), legendX, legendTop);
+  } else if (rcd.validCount > 0 && legendH > 10) {
+    drawLegend(cs, legendX, legendTop, legendW, legendH);
   }
 }
 
@@ -0,0 +1,56 @@
+// ═══════════════════════════════════════════════════════════════
+//  Sensitivity — mechanism tolerance windows from the shot Jacobian
+// ═══════════════════════════════════════════════════════════════
+//
+//  A solved shot clears the rim by rimClearance (a ground shot: its
+//  touchdown and roll-out stay landingMargin inside the zone).  Moving the
+//  ball's path sideways or along the line of fire by less than that still
+//  goes in, so to first order:
+//
+//    along the shot:  a height error δh at the target plane moves the
+//                     crossing (or touchdown) by δh / tan(descent), so
+//                     |δv| ≤ c·tan(descent) / |∂h/∂v|   (same for θ)
+//    across it:       |δφ| ≤ c / |∂lateral/∂φ|
+//
+//  These are linearized, one-mechanism-at-a-time windows — errors in
+//  several mechanisms at once share the same clearance.
+//
+//  A ground shot's touchdown scatter comes from the same Jacobian: the
+//  Shot Scatter σ's pushed through it (height misses turned into range
+//  by the descent slope), plus the robot velocity scatter carried for
+//  the flight time, summed in quadrature.
+// ═══════════════════════════════════════════════════════════════
+
+import type { LandingSpread, Params, ShotResult, ShotTolerance } from './types';
+
+/** Window for one setpoint: clearance over the miss per unit error. */
+function window(clearance: number, sensitivity: number): number {
+  return Math.abs(sensitivity) > 1e-9 ? clearance / Math.abs(sensitivity) : Infinity;
+}
+
+/** ± tolerance on speed, hood angle and turret angle for a valid shot. */
+export function shotTolerance(r: ShotResult): ShotTolerance {
+  const c = Math.max(0, r.landingMargin ?? r.rimClearance);
+  const alongShot = c * Math.tan(r.descentAngleDeg * Math.PI / 180);
+  const j = r.jacobian;
+  return {
+    speed: window(alongShot, j.heightSpeed),
+    angleDeg: window(alongShot, j.heightAngle) * 180 / Math.PI,
+    turretDeg: window(c, j.lateralTurret) * 180 / Math.PI,
+  };
+}
+
+/** 1σ touchdown scatter of a ground shot under the Shot Scatter settings. */
+export function landingSpread(r: ShotResult, p: Params): LandingSpread {
+  const j = r.jacobian;
+  const sSpeed = p.sigmaSpeed;
+  const sAngle = p.sigmaAngle * Math.PI / 180;
+  const sTurret = p.sigmaTurret * Math.PI / 180;
+  const drift = p.sigmaVelocity * r.flightTime;
+  const slope = Math.max(Math.tan(r.descentAngleDeg * Math.PI / 180), 1e-3);
+  const height = Math.hypot(j.heightSpeed * sSpeed, j.heightAngle * sAngle, j.heightTurret * sTurret);
+  return {
+    along: Math.hypot(height / slope, drift),
+    lateral: Math.hypot(j.lateralSpeed * sSpeed, j.lateralAngle * sAngle, j.lateralTurret * sTurret, drift),
+  };
+}
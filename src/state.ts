@@ -9,6 +9,7 @@ import type {
   LayoutCache,
   Params,
   DetailedShot,
+  ShotFamily,
 } from './types';
 
 export const state = {
@@ -19,4 +20,12 @@ export const state = {
   currentParams: {} as Partial<Params>,
   recalcTimer: null as ReturnType<typeof setTimeout> | null,
   currentDetailedShot: null as DetailedShot | null,
+  /** Trajectory families at the modal's position, the robot velocity and Params (target) they were solved for. */
+  shotFamilies: null as {
+    families: ShotFamily[];
+    index: number;
+    tangentialVelo: number;
+    radialVelo: number;
+    params: Params;
+  } | null,
 };
@@ -2,22 +2,89 @@
 //  Tooltip — field map + range chart hover tooltips
 // ═══════════════════════════════════════════════════════════════
 
-import { FIELD_WIDTH } from './constants';
-import { canvasToField } from './render';
+import { canvasToField, inFieldView } from './render';
 import { getViewMode } from './controls';
 import { state } from './state';
-import type { LayoutCache, RangeChartLayout } from './types';
+import { mechanismFromParams, exitSpeedToRpm, angleToHood, formatHood } from './mechanism';
+import { shotTolerance, landingSpread } from './sensitivity';
+import { turretLimited } from './turret';
+import { formatRejection } from './rejection';
+import { relaxedAlternativesAtRange } from './physics';
+import { cellAlternatives, nearestValidCell } from './compute';
+import type { RangeChartLayout, Params, ShotResult, ShotRejection, ShotAlternatives } from './types';
+
+/** Row naming the constraint an invalid cell failed, if known. */
+function rejectionRow(rejection: ShotRejection | null): string {
+  return rejection ? `<div class="tt-row">Limited by: ${formatRejection(rejection)}</div>` : '';
+}
+
+/**
+ * The relaxed solve for the last clicked invalid cell, kept while the
+ * computed data it belongs to is current.
+ */
+let relaxed: { data: object; key: string; alt: ShotAlternatives } | null = null;
+
+/** The clicked cell's alternatives; solved now when relax is set, else only if already solved. */
+function cellRelaxed(data: object, key: string, relax: boolean, solve: () => ShotAlternatives): ShotAlternatives | null {
+  if (relax && (relaxed?.data !== data || relaxed.key !== key)) relaxed = { data, key, alt: solve() };
+  return relaxed?.data === data && relaxed.key === key ? relaxed.alt : null;
+}
+
+/** Rows suggesting the nearest speed or hood change that makes the shot valid, or a click hint. */
+function alternativeRows(alt: ShotAlternatives | null): string {
+  if (!alt) return `<div class="tt-row tt-hint">Click for the nearest speed / hood fix</div>`;
+  let html = '';
+  if (alt.speedChange !== undefined) {
+    const sign = alt.speedChange > 0 ? '+' : '\u2212';
+    const limit = alt.speedChange > 0 ? 'max' : 'min';
+    html += `<div class="tt-row">Speed: ${sign}${Math.abs(alt.speedChange).toFixed(1)} m/s past ${limit}</div>`;
+  }
+  if (alt.hoodBands.length > 0) {
+    const bands = alt.hoodBands.map(([lo, hi]) =>
+      hi - lo < 0.5 ? `${lo.toFixed(0)}\u00B0` : `${lo.toFixed(0)}\u2013${hi.toFixed(0)}\u00B0`);
+    html += `<div class="tt-row">Hood: valid at ${bands.join(', ')}</div>`;
+  }
+  return html || `<div class="tt-row">No speed or hood change helps</div>`;
+}
+
+/** One-line tolerance window: speed, hood and turret error the shot can absorb. */
+function toleranceRow(result: ShotResult): string {
+  const tol = shotTolerance(result);
+  return `<div class="tt-row">Tolerance: \u00B1${tol.speed.toFixed(2)} m/s \u00B7 ` +
+    `\u00B1${tol.angleDeg.toFixed(1)}\u00B0 hood \u00B7 \u00B1${tol.turretDeg.toFixed(1)}\u00B0 turret</div>`;
+}
+
+/**
+ * How the shot arrives: descent and rim clearance at the hub, or for a
+ * ground target the touchdown point, its 1σ spread and the landing margin.
+ */
+function arrivalRows(result: ShotResult, p: Params): string {
+  if (p.targetType !== 'ground') {
+    return `<div class="tt-row">Vy at target: ${result.vyAtTarget.toFixed(2)} m/s \u2193</div>` +
+      `<div class="tt-row">Descent Angle: ${result.descentAngleDeg.toFixed(1)}\u00B0</div>` +
+      `<div class="tt-row">Rim Clearance: ${result.rimClearance.toFixed(3)} m</div>`;
+  }
+  const spread = landingSpread(result, p);
+  return (result.landing
+      ? `<div class="tt-row">Landing: (${result.landing.x.toFixed(2)}, ${result.landing.y.toFixed(2)}) m</div>` : '') +
+    `<div class="tt-row">Spread (1\u03C3): \u00B1${spread.along.toFixed(2)} m long \u00B7 ` +
+    `\u00B1${spread.lateral.toFixed(2)} m wide</div>` +
+    `<div class="tt-row">Zone Margin: ${(result.landingMargin ?? 0).toFixed(2)} m</div>`;
+}
 
 /** Bind pointer events for the tooltip on the main canvas. */
 export function bindTooltip(canvas: HTMLCanvasElement): void {
   const tooltip = document.getElementById('tooltip')!;
 
-  canvas.addEventListener('pointermove', (e) => {
+  // Hover shows the cell; a click on an invalid cell also runs its relaxed solve
+  const update = (e: MouseEvent, relax: boolean) => {
     const rect = canvas.parentElement!.getBoundingClientRect();
     const cx = e.clientX - rect.left;
     const cy = e.clientY - rect.top;
 
     let html = '';
+    const params = state.currentParams as Params;
+    const mech = mechanismFromParams(params);
 
     if (getViewMode() === 'range') {
       // ── Range chart tooltip ──
@@ -54,49 +121,103 @@ export function bindTooltip(canvas: HTMLCanvasElement): void {
         html += `<div class="tt-valid">\u2713 Valid Shot</div>`;
         html += `<div class="tt-row">Speed: ${result.shotSpeed.toFixed(1)} m/s</div>`;
         html += `<div class="tt-row">Hood Angle: ${result.hoodAngleDeg.toFixed(1)}\u00B0</div>`;
+        html += `<div class="tt-row">Flywheel: ${exitSpeedToRpm(result.shotSpeed, mech).toFixed(0)} rpm</div>`;
+        html += `<div class="tt-row">Hood Setpoint: ${formatHood(angleToHood(result.hoodAngleDeg, mech), mech.hoodUnit)}</div>`;
         html += `<div class="tt-row">Flight Time: ${result.flightTime.toFixed(3)} s</div>`;
         html += `<div class="tt-row">Apex: ${result.apexHeight.toFixed(2)} m</div>`;
-        html += `<div class="tt-row">Vy at target: ${result.vyAtTarget.toFixed(2)} m/s \u2193</div>`;
-        html += `<div class="tt-row">Descent Angle: ${result.descentAngleDeg.toFixed(1)}\u00B0</div>`;
+        html += arrivalRows(result, params);
+        html += toleranceRow(result);
+        if (result.familyCount !== undefined) {
+          html += `<div class="tt-row">Solutions: ${result.familyCount}</div>`;
+        }
+        if (result.hitProbability !== undefined) {
+          html += `<div class="tt-row">Make Probability: ${(result.hitProbability * 100).toFixed(0)}%</div>`;
+        }
       } else {
         html += `<div class="tt-invalid">\u2717 No Valid Shot</div>`;
+        html += rejectionRow(rcd.rejections[hitPanel.ri][ti][di]);
+        // Along the distance axis only — distance and tangential steps are not comparable
+        const near = nearestValidCell([rcd.panels[hitPanel.ri][ti]], 0, di);
+        if (near) {
+          html += `<div class="tt-row">Nearest Valid: ${distances[near[1]].toFixed(2)} m at this speed</div>`;
+        }
+        html += alternativeRows(cellRelaxed(rcd, `${hitPanel.ri}:${ti}:${di}`, relax, () =>
+          relaxedAlternativesAtRange(distances[di], tangentials[ti], radVal, params)));
       }
 
     } else {
       // ── Field map tooltip ──
       const [fx, fy] = canvasToField(cx, cy);
-      const lc = state.layoutCache as LayoutCache;
 
-      if (fx < 0 || fx > (lc.displayFieldLength || 16.54) || fy < 0 || fy > FIELD_WIDTH) {
+      if (!inFieldView(fx, fy)) {
         tooltip.style.display = 'none'; return;
       }
 
       let result = null;
+      let blocked = false;
+      let turretStop = false;
+      let unreachable = false;
+      let rejection: ShotRejection | null = null;
+      let cellRow = -1, cellCol = -1;
       let cellFx = fx, cellFy = fy;
       const hd = state.heatmapData;
       if (hd) {
-        const col = Math.floor(fx / hd.res);
+        const col = Math.floor((fx - hd.x0) / hd.res);
         const row = Math.floor(fy / hd.res);
         if (row >= 0 && row < hd.rows && col >= 0 && col < hd.cols) {
           result = hd.results[row][col];
-          cellFx = (col + 0.5) * hd.res;
+          blocked = hd.blocked[row][col];
+          turretStop = hd.turretLimited[row][col];
+          unreachable = hd.unreachable[row][col];
+          rejection = hd.rejections[row][col];
+          cellRow = row;
+          cellCol = col;
+          cellFx = hd.x0 + (col + 0.5) * hd.res;
           cellFy = (row + 0.5) * hd.res;
-
         }
       }
 
       html = `<div class="tt-header">Cell: (${cellFx.toFixed(2)}, ${cellFy.toFixed(2)}) m</div>`;
       if (result) {
         html += `<div class="tt-valid">\u2713 Valid Shot</div>`;
+        if (result.target) html += `<div class="tt-row">Target: ${result.target.name}</div>`;
         html += `<div class="tt-row">Speed: ${result.shotSpeed.toFixed(1)} m/s</div>`;
         html += `<div class="tt-row">Hood Angle: ${result.hoodAngleDeg.toFixed(1)}\u00B0</div>`;
+        html += `<div class="tt-row">Flywheel: ${exitSpeedToRpm(result.shotSpeed, mech).toFixed(0)} rpm</div>`;
+        html += `<div class="tt-row">Hood Setpoint: ${formatHood(angleToHood(result.hoodAngleDeg, mech), mech.hoodUnit)}</div>`;
         html += `<div class="tt-row">Flight Time: ${result.flightTime.toFixed(3)} s</div>`;
         html += `<div class="tt-row">Range: ${result.range.toFixed(2)} m</div>`;
         html += `<div class="tt-row">Apex: ${result.apexHeight.toFixed(2)} m</div>`;
-        html += `<div class="tt-row">Vy at target: ${result.vyAtTarget.toFixed(2)} m/s \u2193</div>`;
-        html += `<div class="tt-row">Descent Angle: ${result.descentAngleDeg.toFixed(1)}\u00B0</div>`;
+        if (params.shooterMount === 'fixed' && result.headingDeg !== undefined) {
+          html += `<div class="tt-row">Robot Heading: ${result.headingDeg.toFixed(1)}\u00B0</div>`;
+        } else if (result.turretAngleDeg !== undefined && (params.headingRule === 'fixed' || turretLimited(params))) {
+          html += `<div class="tt-row">Turret: ${result.turretAngleDeg.toFixed(0)}\u00B0 from chassis</div>`;
+        }
+        html += arrivalRows(result, params);
+        html += toleranceRow(result);
+        if (result.familyCount !== undefined) {
+          html += `<div class="tt-row">Solutions: ${result.familyCount}</div>`;
+        }
+        if (result.hitProbability !== undefined) {
+          html += `<div class="tt-row">Make Probability: ${(result.hitProbability * 100).toFixed(0)}%</div>`;
+        }
+      } else if (unreachable) {
+        html += `<div class="tt-invalid">\u2717 Robot Doesn't Fit Here</div>`;
       } else {
-        html += `<div class="tt-invalid">\u2717 No Valid Shot</div>`;
+        html += blocked ? `<div class="tt-invalid">\u2717 Blocked by Obstacle</div>`
+          : turretStop ? `<div class="tt-invalid">\u2717 Turret Can't Reach</div>`
+          : `<div class="tt-invalid">\u2717 No Valid Shot</div>`;
+        html += rejectionRow(rejection);
+        if (hd && cellRow >= 0) {
+          const near = nearestValidCell(hd.results, cellRow, cellCol);
+          if (near) {
+            const nx = hd.x0 + (near[1] + 0.5) * hd.res, ny = (near[0] + 0.5) * hd.res;
+            html += `<div class="tt-row">Nearest Valid: (${nx.toFixed(2)}, ${ny.toFixed(2)}) m, ` +
+              `${Math.hypot(nx - cellFx, ny - cellFy).toFixed(2)} m away</div>`;
+          }
+          html += alternativeRows(cellRelaxed(hd, `${cellRow}:${cellCol}`, relax, () =>
+            cellAlternatives(cellFx, cellFy, params)));
+        }
       }
     }
 
@@ -113,7 +234,10 @@ export function bindTooltip(canvas: HTMLCanvasElement): void {
 
     tooltip.style.left = tx + 'px';
     tooltip.style.top  = ty + 'px';
-  });
+  };
+
+  canvas.addEventListener('pointermove', (e) => update(e, false));
+  canvas.addEventListener('click', (e) => update(e, true));
 
   canvas.parentElement!.addEventListener('pointerleave', () => {
     tooltip.style.display = 'none';
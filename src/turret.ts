@@ -0,0 +1,43 @@
+// ═══════════════════════════════════════════════════════════════
+//  Turret travel — hard stops measured from the chassis
+// ═══════════════════════════════════════════════════════════════
+//
+//  The turret can only turn between turretMin and turretMax (deg,
+//  relative to the robot's forward axis, CCW positive).  A span of 360°
+//  or more is a free turret.  The chassis heading comes from the heading
+//  rule (see chassisHeading in footprint.ts), so with a fixed heading the
+//  stops decide which directions — and so which cells — the robot can
+//  shoot from.  A stop past ±180° reaches the same direction two ways:
+//
+//    −200 … 200   every direction; 160°–200° also as −200°…−160°
+//    −90 … 90     only the forward half
+// ═══════════════════════════════════════════════════════════════
+
+import type { Params } from './types';
+
+/** Whether the stops leave part of the circle out of reach. */
+export function turretLimited(p: Params): boolean {
+  return p.turretMax - p.turretMin < 360;
+}
+
+/** The turret angles (deg) that point along aimHeading from a chassis at heading chassis (rad). */
+function turns(aimHeading: number, chassis: number): number[] {
+  const d = (aimHeading - chassis) * 180 / Math.PI;
+  const rel = d - 360 * Math.round(d / 360);
+  return [rel, rel - 360, rel + 360];
+}
+
+/**
+ * Turret angle (deg, relative to the chassis, CCW positive) that points
+ * along the field heading aimHeading (rad) from a chassis at heading
+ * chassis (rad).  The turn within the stops if there is one, else null.
+ */
+export function turretAngle(aimHeading: number, chassis: number, p: Params): number | null {
+  return turns(aimHeading, chassis).find(t => t >= p.turretMin && t <= p.turretMax) ?? null;
+}
+
+/** How far (deg) the nearest way round to aimHeading lies past a stop; 0 if reachable. */
+export function turretOverrun(aimHeading: number, chassis: number, p: Params): number {
+  return Math.min(...turns(aimHeading, chassis).map(t =>
+    Math.max(0, p.turretMin - t, t - p.turretMax)));
+}
@@ -14,6 +14,104 @@ export interface ShotResult {
   lateralDrift: number;
   turretAdjRad: number;
   range: number;
+  /** Field heading (rad) of the line from the shooter to the target. */
+  bearing: number;
+  /**
+   * Smallest gap (m) between the ball surface and the hub rim / funnel
+   * wall; Infinity for a ground target (see landingMargin).
+   */
+  rimClearance: number;
+  /** Ball exit point relative to the robot center at release, field axes (m). */
+  exitOffsetX: number;
+  exitOffsetY: number;
+  /** Absolute height of the ball exit point (m). */
+  launchZ: number;
+  /** Robot displacement between the shoot decision and release, field axes (m). */
+  releaseOffsetX: number;
+  releaseOffsetY: number;
+  /** Monte Carlo make probability (0–1); set only in the probability color mode. */
+  hitProbability?: number;
+  /** Miss sensitivities at the solution (see refineShot). */
+  jacobian: ShotJacobian;
+  /** Number of distinct trajectory families; set only in the solution-count color mode. */
+  familyCount?: number;
+  /** The target aimed at; set only in the nearest-target mode (else the Target controls'). */
+  target?: FieldTarget;
+  /** Field point (m) where the ball touches down; set only for ground targets. */
+  landing?: { x: number; y: number };
+  /** Ground targets only: smallest distance (m) from touchdown and roll-out to the zone's edge. */
+  landingMargin?: number;
+  /** Turret angle relative to the chassis (deg, CCW positive; see turret.ts); turret robots only. */
+  turretAngleDeg?: number;
+  /**
+   * Chassis heading while shooting (deg, field frame, CCW from +x) — the
+   * heading rule's, or for a turretless robot the one it must turn to.
+   */
+  headingDeg?: number;
+}
+
+/** Constraint a candidate shot failed, in check order (see rejection.ts). */
+export type RejectReason =
+  | 'tooClose' | 'noConvergence' | 'groundHit' | 'heightError' | 'ceiling'
+  | 'descent' | 'lateralDrift' | 'rim' | 'landing' | 'obstacle' | 'turret';
+
+/** Why a position has no valid shot (see diagnoseShot). */
+export interface ShotRejection {
+  reason: RejectReason;
+  /** How far past the limit, in the reason's unit; absent when the check has no measure. */
+  margin?: number;
+}
+
+/** Nearest changes that would make an invalid position valid (see relaxedAlternatives). */
+export interface ShotAlternatives {
+  /** Exit speed change (m/s) to the nearest valid shot: past the maximum (+) or below the minimum (−). */
+  speedChange?: number;
+  /**
+   * Hood angle bands [lo, hi] (deg) with a valid shot within the speed
+   * limits, inside the hood's reach (see hoodReach).
+   */
+  hoodBands: [number, number][];
+}
+
+/** One feasible trajectory family at a position (see evaluateShotFamilies). */
+export interface ShotFamily {
+  /** 'low' or 'high' — which root of the vacuum arc equation it follows. */
+  arc: string;
+  /** Exit-speed band (m/s) over which the family stays feasible. */
+  minSpeed: number;
+  maxSpeed: number;
+  /** The band's solution preferred by the solution policy. */
+  result: ShotResult;
+}
+
+/**
+ * Finite-difference Jacobian of the miss at the target — height error and
+ * lateral drift — with respect to exit speed, hood angle and turret angle.
+ * Units: m per m/s for speed, m per rad for the angles.
+ */
+export interface ShotJacobian {
+  heightSpeed: number;
+  heightAngle: number;
+  heightTurret: number;
+  lateralSpeed: number;
+  lateralAngle: number;
+  lateralTurret: number;
+}
+
+/** Setpoint error each mechanism can hold (±) before the ball touches the rim. */
+export interface ShotTolerance {
+  /** Exit speed (m/s). */
+  speed: number;
+  /** Hood angle (deg). */
+  angleDeg: number;
+  /** Turret angle (deg). */
+  turretDeg: number;
+}
+
+/** 1σ touchdown scatter of a ground shot (m), along and across the line of fire. */
+export interface LandingSpread {
+  along: number;
+  lateral: number;
 }
 
 /** All control-panel parameters read from the DOM. */
@@ -28,15 +126,204 @@ export interface Params {
   fixedAngle: number;
   tangentialVelo: number;
   radialVelo: number;
+  /** 'chassis' — tangentialVelo / radialVelo apply at every cell; 'field' — fieldVx / fieldVy do. */
+  velocityFrame: string;
+  /** Robot velocity in field axes (m/s), resolved per cell in the 'field' frame. */
+  fieldVx: number;
+  fieldVy: number;
+  /** Delay (s) from the shoot decision to the ball leaving the robot. */
+  latency: number;
+  /** Chassis yaw rate (deg/s, counter-clockwise positive). */
+  yawRate: number;
+  /** Shooter lever arm from the rotation center, along the robot's forward axis (m). */
+  leverArm: number;
   gridRes: number;
   shooterZ: number;
   ceilingHeight: number;
   targetX: number;
   targetY: number;
   targetZ: number;
+  /** 'hub' (an elevated opening) or 'ground' (a landing zone on the floor). */
+  targetType: string;
+  /** Landing zone polygon text, "x1,y1 x2,y2 …" (see landing.ts). */
+  landingZone: string;
+  /** How far (m) the ball rolls on after touchdown; that stretch must stay in the zone. */
+  rollOut: number;
+  /** Highest apex (m) a ground shot may reach. */
+  maxApex: number;
+  /** 'blue' or 'red' — whose targets and side of the field. */
+  alliance: string;
+  /** 'single' (the Target controls) or 'nearest' (each cell picks among the alliance's targets). */
+  targetMode: string;
+  /** 'alliance' (the alliance's side) or 'full' (the whole field). */
+  fieldView: string;
+  hubShape: string;
+  hubRadius: number;
+  hubRimHeight: number;
+  hubFunnelAngle: number;
+  /** 'turret' or 'fixed' (turretless — the chassis turns to aim). */
+  shooterMount: string;
+  /** Turret pivot, or a fixed shooter, in the robot frame (m, forward / left of center). */
+  turretOffsetX: number;
+  turretOffsetY: number;
+  exitRadius: number;
+  hoodArcRadius: number;
+  wheelDiameter: number;
+  wheelCompression: number;
+  slipEfficiency: number;
+  /** Hood calibration table text, e.g. "5:0, 45:2.4, 85:4.4" (angle:setpoint). */
+  hoodTable: string;
+  hoodUnit: string;
   maxVyAtTarget: number;
   maxLateralDrift: number;
+  /** Bumper-inclusive robot footprint (m): length along the forward axis, width across. */
+  robotLength: number;
+  robotWidth: number;
+  /** Headings the robot may take: any, target (facing it) or fixed (robotHeading). */
+  headingRule: string;
+  /** Robot heading (deg, field frame, CCW from +x) for the fixed heading rule. */
+  robotHeading: number;
+  /** Turret hard stops (deg, relative to the chassis forward axis, CCW positive). */
+  turretMin: number;
+  turretMax: number;
+  /** Field obstacle list text, one box / cyl / poly entry per line (see obstacles.ts). */
+  obstacles: string;
+  /** Overhead zones, same syntax; the height is the clearance underneath. */
+  overheadZones: string;
+  /** Which solution to seed and report: highArc, lowArc, minTime, minSpeed or maxDescent. */
+  solutionPolicy: string;
   dragEnabled: boolean;
+  /** Backspin imparted by the flywheel (rpm).  0 disables the Magnus term. */
+  spinRpm: number;
+  /** Adaptive integrator error tolerance. */
+  integratorTol: number;
+  /** Venue altitude (m). */
+  altitude: number;
+  /** Air temperature (°C). */
+  temperature: number;
+  /** Sea-level (altimeter) pressure (hPa). */
+  pressure: number;
+  /** Relative humidity (%). */
+  humidity: number;
+  /** Name of the selected game piece ('Custom' when edited away from a preset). */
+  gamePiece: string;
+  ballMass: number;
+  ballDiameter: number;
+  ballCd: number;
+  /** Shot-to-shot scatter, 1σ: exit speed (m/s). */
+  sigmaSpeed: number;
+  /** Hood angle scatter, 1σ (deg). */
+  sigmaAngle: number;
+  /** Turret angle scatter, 1σ (deg). */
+  sigmaTurret: number;
+  /** Robot velocity scatter, 1σ per axis (m/s). */
+  sigmaVelocity: number;
+  /** Monte Carlo samples per cell. */
+  mcSamples: number;
+  /** True when the color mode needs make probabilities (see montecarlo.ts). */
+  probabilityMode: boolean;
+  /** True when the color mode needs solution counts (see evaluateShotFamilies). */
+  familyMode: boolean;
+}
+
+/** Game-piece properties (see gamePiece.ts). */
+export interface GamePiece {
+  name: string;
+  /** kg */
+  mass: number;
+  /** m */
+  diameter: number;
+  dragCoefficient: number;
+}
+
+/** Trajectory of another game piece launched with the same setpoint. */
+export interface PieceComparison {
+  name: string;
+  trajectory: TrajectoryPoint[];
+  /** Where it descends through the target height, relative to the target (m, + long); null if it never does. */
+  rangeError: number | null;
+}
+
+/** Trajectory of another solution family at the same position. */
+export interface AlternateArc {
+  label: string;
+  trajectory: TrajectoryPoint[];
+}
+
+/** Named event atmosphere — typical conditions inside the venue. */
+export interface EnvironmentPreset {
+  altitude: number;     // m
+  temperature: number;  // °C
+  pressure: number;     // hPa, sea-level
+  humidity: number;     // %
+}
+
+/** Shooter mechanism transfer model (see mechanism.ts). */
+export interface MechanismModel {
+  /** Effective flywheel contact radius (m) — wheel radius less compression. */
+  wheelRadius: number;
+  /** Ball exit speed ÷ wheel surface speed. */
+  efficiency: number;
+  /** Sorted (launch angle °, hood setpoint) calibration pairs. */
+  hoodTable: [number, number][];
+  hoodUnit: string;
+}
+
+/** Hub opening geometry.  The opening (throat) plane sits at the target height. */
+export interface HubGeometry {
+  shape: 'circle' | 'hex';
+  /** Circle radius, or hexagon apothem (center → flat), m. */
+  radius: number;
+  /** Height of the opening plane, m. */
+  z: number;
+  /** Height of the rim above the opening, m — the funnel wall spans this band. */
+  rimHeight: number;
+  /** Funnel wall flare from vertical (rad); 0 = straight wall. */
+  funnelAngleRad: number;
+}
+
+/** A region of the field floor, in field coordinates (m).  Boxes are axis-aligned. */
+export type Footprint =
+  | { shape: 'box'; xMin: number; yMin: number; xMax: number; yMax: number }
+  | { shape: 'cylinder'; x: number; y: number; radius: number }
+  | { shape: 'polygon'; points: [number, number][] };
+
+/** Field obstacle: a footprint extruded from the floor up to height (m). */
+export type Obstacle = Footprint & { height: number };
+
+/** A scoring target in a field layout. */
+export interface FieldTarget {
+  name: string;
+  alliance: 'blue' | 'red';
+  x: number;
+  y: number;
+  z: number;
+}
+
+/** Decorative field markings, in field coordinates (m). */
+export type FieldDrawing =
+  | { type: 'line'; points: [number, number][]; color?: string; width?: number; dash?: number[] }
+  | { type: 'polygon'; points: [number, number][]; color?: string; fill?: string; width?: number; dash?: number[] }
+  | { type: 'circle'; x: number; y: number; radius: number; color?: string; fill?: string; width?: number; dash?: number[] }
+  | { type: 'label'; x: number; y: number; text: string; color?: string };
+
+/**
+ * A season's field, loaded from JSON (see field.ts).  The x axis runs from
+ * the blue alliance wall (x = 0) to the red one (x = length).
+ */
+export interface FieldLayout {
+  name: string;
+  length: number;
+  width: number;
+  targets: FieldTarget[];
+  /** Alliance walls, as the field x they stand at. */
+  allianceWalls: { alliance: 'blue' | 'red'; x: number }[];
+  /** Floor regions the robot may not enter. */
+  keepOut: Footprint[];
+  obstacles: Obstacle[];
+  /** Overhead structures; height is the clearance underneath. */
+  overheadZones: Obstacle[];
+  drawings: FieldDrawing[];
 }
 
 /** Drag configuration passed through the physics call chain. */
@@ -44,6 +331,16 @@ export interface DragConfig {
   enabled: boolean;
   /** Pre-computed  k = ½ρCdA / m  (1/m).  Only meaningful when enabled. */
   k: number;
+  /** Backspin rate at launch (rad/s).  0 disables Magnus lift. */
+  spin: number;
+  /** Pre-computed lift constant  ½ρA / m  (1/m), scaled by C_L(S) at runtime. */
+  liftK: number;
+  /** Ball radius (m), used for the spin ratio S = rω / |v|. */
+  radius: number;
+  /** Exponential spin-decay rate (1/s). */
+  spinDecay: number;
+  /** Integrator error tolerance, absolute and relative (see integrator.ts). */
+  tol: number;
 }
 
 /** Single point on a sampled trajectory. */
@@ -68,12 +365,61 @@ export interface DetailedShot {
   shooterZ: number;
   targetZ: number;
   ceilingHeight: number;
+  hub: HubGeometry;
+  bearing: number;
+  ballRadius: number;
+  rimClearance: number;
+  /** Ground targets only: the landing zone, touchdown point, margin and its 1σ scatter. */
+  landingZone?: Footprint;
+  landing?: { x: number; y: number };
+  landingMargin?: number;
+  landingSpread?: LandingSpread;
+  jacobian: ShotJacobian;
+  tolerance: ShotTolerance;
+  /** 'turret' or 'fixed' — with a fixed shooter, turretAdjRad is a chassis heading change. */
+  shooterMount: string;
+  /** Chassis heading while shooting (rad, field frame) and the turret angle from it (deg; turret only). */
+  chassisHeading: number;
+  turretAngleDeg?: number;
+  /** Bumper-inclusive robot footprint (m), for the top view. */
+  robotLength: number;
+  robotWidth: number;
+  /** Ball exit point relative to the robot center, field axes (m). */
+  exitOffsetX: number;
+  exitOffsetY: number;
+  /** Robot displacement during the release latency, field axes (m). */
+  releaseOffsetX: number;
+  releaseOffsetY: number;
+  /** Ball exit point in field coordinates (m) — origin of the view frame. */
+  launchX: number;
+  launchY: number;
+  /** Field obstacles and overhead zones, for the top and side views. */
+  obstacles: Obstacle[];
+  overheadZones: Obstacle[];
+  latency: number;
+  /** Robot velocity in the (tangential, radial) frame at release. */
   tangentialVelo: number;
   radialVelo: number;
+  yawRateDeg: number;
+  flywheelRpm: number;
+  hoodSetpoint: number;
+  hoodUnit: string;
+  /** Tangential shooter velocity induced by the yaw rate (ω × r), m/s. */
+  yawTangential: number;
   dragEnabled: boolean;
+  spinRpm: number;
+  /** Air density used for drag and lift (kg/m³). */
+  airDensity: number;
+  gamePiece: string;
+  /** Same setpoint flown with a second game piece (modal comparison). */
+  comparison?: PieceComparison;
+  /** Arcs of the position's other trajectory families (modal overlay). */
+  alternates?: AlternateArc[];
   trajectory: TrajectoryPoint[];
-  /** Vacuum (no-drag) trajectory for comparison overlay. Only set when drag is enabled. */
+  /** Vacuum (no-drag, no-spin) trajectory for comparison overlay. Only set when drag or spin is enabled. */
   vacuumTrajectory?: TrajectoryPoint[];
+  /** Drag-only trajectory (spin removed) for comparison overlay. Only set when both drag and spin are enabled. */
+  noSpinTrajectory?: TrajectoryPoint[];
   vxLaunch: number;
   vzLaunch: number;
   vyLaunch: number;
@@ -92,12 +438,24 @@ export interface HeatmapData {
   cols: number;
   rows: number;
   res: number;
+  /** Field x of column 0's near edge (m). */
+  x0: number;
   results: (ShotResult | null)[][];
   minSpeed: number;
   maxSpeed: number;
   minAngle: number;
   maxAngle: number;
   validCount: number;
+  /** Cells with a shot that only an obstacle or overhead zone prevents (rows × cols). */
+  blocked: boolean[][];
+  /** Cells with a shot only the turret stops prevent (rows × cols). */
+  turretLimited: boolean[][];
+  /** Why each invalid cell has no shot (rows × cols); null for valid and unreachable cells. */
+  rejections: (ShotRejection | null)[][];
+  /** Cells the robot footprint cannot occupy (rows × cols) — never solved. */
+  unreachable: boolean[][];
+  /** Cells not unreachable; the status line's total. */
+  reachableCount: number;
 }
 
 /** Range chart data produced by computeRangeChart. */
@@ -106,6 +464,8 @@ export interface RangeChartData {
   tangentials: number[];
   radials: number[];
   panels: (ShotResult | null)[][][];
+  /** Why each invalid cell failed (null for valid cells), indexed like panels. */
+  rejections: (ShotRejection | null)[][][];
   minSpeed: number;
   maxSpeed: number;
   minAngle: number;
@@ -125,6 +485,8 @@ export interface LayoutCache {
   ox: number;
   oy: number;
   legendX: number;
+  /** Field x at the view's near (right-hand) edge, and the shown length from there (m). */
+  displayFieldStart: number;
   displayFieldLength: number;
 }
 
@@ -148,16 +510,32 @@ export interface RangeChartLayout {
   radials: number[];
 }
 
+/** Heatmap color scale for one color mode (see render.ts). */
+export interface ColorScale {
+  title: string;
+  topLabel: string;
+  bottomLabel: string;
+  /** Cell color for a shot result. */
+  color: (r: ShotResult, alpha: number) => string;
+  /** Legend color at normalized position t (0 = bottom, 1 = top). */
+  gradient: (t: number, alpha: number) => string;
+}
+
 /** Sweep result from sweepSpeedAndAngle. */
 export interface SweepResult {
   speed: number;
   angle: number;
   error: number;
+  /** Viable descending seeds, the most accurate per sampled angle, best first under the policy. */
+  ranked: { speed: number; angle: number }[];
 }
 
 /** Refinement result from refineShot. */
 export interface RefineResult {
+  speed: number;
   angle: number;
   shotTime: number;
   turretAdjRad: number;
+  /** Jacobian at the final iterate; null if the residuals could not be evaluated there. */
+  jacobian: ShotJacobian | null;
 }
@@ -4,6 +4,7 @@
 
 import { prepCanvas, drawArrow } from '../drawing';
 import { createLabelPlacer } from '../labels';
+import { openingHalfWidth } from '../hub';
 import type { DetailedShot } from '../types';
 
 export function renderBackView(canvasEl: HTMLCanvasElement, shot: DetailedShot): void {
@@ -12,9 +13,16 @@ export function renderBackView(canvasEl: HTMLCanvasElement, shot: DetailedShot):
   const pw = w - pad.left - pad.right;
   const ph = h - pad.top - pad.bottom;
 
+  // Hub opening half-widths across the line of fire (throat and rim)
+  const hub = shot.hub;
+  const zTop = hub.z + hub.rimHeight;
+  const wThroat = openingHalfWidth(hub, shot.bearing + Math.PI / 2);
+  const wRim = openingHalfWidth(
+    { ...hub, radius: hub.radius + hub.rimHeight * Math.tan(hub.funnelAngleRad) }, shot.bearing + Math.PI / 2);
+
   // World bounds
-  const maxLateral = Math.abs(shot.tangentialVelo) * shot.flightTime;
-  const yExtent = Math.max(maxLateral * 1.5, 1.0);
+  const maxLateral = Math.abs(shot.tangentialVelo + shot.yawTangential) * shot.flightTime;
+  const yExtent = Math.max(maxLateral * 1.5, wRim + 0.3, 1.0);
   const showCeiling = shot.zApex >= 6;
   const zMax = showCeiling
     ? Math.max(shot.ceilingHeight * 1.02, shot.zApex + 1)
@@ -51,13 +59,34 @@ export function renderBackView(canvasEl: HTMLCanvasElement, shot: DetailedShot):
     c.setLineDash([]);
   }
 
-  // Target ring
   const tgtPx = toX(0), tgtPy = toY(shot.targetZ);
-  c.beginPath();
-  c.arc(tgtPx, tgtPy, 14, 0, Math.PI * 2);
-  c.strokeStyle = '#58a6ff44';
-  c.lineWidth = 2;
-  c.stroke();
+  if (shot.landingSpread) {
+    // Ground target: the touchdown's 1σ spread across the shot, on the floor
+    const spread = shot.landingSpread.lateral;
+    const lat = shot.trajectory[shot.trajectory.length - 1].y;
+    c.strokeStyle = '#f0883e';
+    c.lineWidth = 2;
+    c.beginPath();
+    c.moveTo(toX(lat - spread), toY(0) + 6); c.lineTo(toX(lat + spread), toY(0) + 6);
+    c.moveTo(toX(lat - spread), toY(0) + 2); c.lineTo(toX(lat - spread), toY(0) + 10);
+    c.moveTo(toX(lat + spread), toY(0) + 2); c.lineTo(toX(lat + spread), toY(0) + 10);
+    c.stroke();
+  } else {
+    // Hub opening to scale: outer body (faint) + funnel walls up to the rim
+    c.strokeStyle = '#58a6ff33';
+    c.lineWidth = 1;
+    c.beginPath();
+    c.moveTo(toX(-wRim), toY(0)); c.lineTo(toX(-wRim), toY(zTop));
+    c.moveTo(toX(wRim), toY(0));  c.lineTo(toX(wRim), toY(zTop));
+    c.stroke();
+    c.strokeStyle = '#58a6ff';
+    c.lineWidth = 2.5;
+    c.beginPath();
+    c.moveTo(toX(-wRim), toY(zTop)); c.lineTo(toX(-wThroat), toY(hub.z));
+    c.moveTo(toX(wRim), toY(zTop));  c.lineTo(toX(wThroat), toY(hub.z));
+    c.stroke();
+  }
+
   c.beginPath();
   c.arc(tgtPx, tgtPy, 3, 0, Math.PI * 2);
   c.fillStyle = '#58a6ff';
@@ -69,8 +98,8 @@ export function renderBackView(canvasEl: HTMLCanvasElement, shot: DetailedShot):
   const ballPy = toY(shot.targetZ);
 
   c.beginPath();
-  c.arc(ballPx, ballPy, 5, 0, Math.PI * 2);
-  c.fillStyle = '#3fb950';
+  c.arc(ballPx, ballPy, Math.max(3, shot.ballRadius * sc), 0, Math.PI * 2);
+  c.fillStyle = '#3fb95088';
   c.fill();
 
   // ── Label placer ──
@@ -2,7 +2,8 @@
 //  Shot Info Panel — parameter display
 // ═══════════════════════════════════════════════════════════════
 
-import type { DetailedShot } from '../types';
+import { formatHood } from '../mechanism';
+import type { DetailedShot, PieceComparison } from '../types';
 
 /** Populate the shot-info panel with formatted parameters. */
 export function populateShotInfo(shot: DetailedShot): void {
@@ -12,24 +13,77 @@ export function populateShotInfo(shot: DetailedShot): void {
   const section = (title: string) =>
     `<div class="si-section">${title}</div>`;
 
+  const turretless = shot.shooterMount === 'fixed';
   el.innerHTML =
     section('Launch') +
     row('Shot Speed', shot.speed.toFixed(1) + ' m/s') +
     row('Hood Angle', shot.hoodAngleDeg.toFixed(1) + '\u00B0') +
     row('H. Speed', shot.effRadSpeed.toFixed(1) + ' m/s') +
     row('V. Speed', shot.vLaunch.toFixed(1) + ' m/s') +
-    row('Turret Adj.', (shot.turretAdjRad * 180 / Math.PI).toFixed(1) + '\u00B0') +
+    row(turretless ? 'Heading Adj.' : 'Turret Adj.', (shot.turretAdjRad * 180 / Math.PI).toFixed(1) + '\u00B0') +
+    row('Robot Heading', (shot.chassisHeading * 180 / Math.PI).toFixed(1) + '\u00B0') +
+    (shot.turretAngleDeg !== undefined ? row('Turret Angle', shot.turretAngleDeg.toFixed(1) + '\u00B0') : '') +
+    row('Exit Height', shot.shooterZ.toFixed(2) + ' m') +
+    row('Exit Offset', Math.hypot(shot.exitOffsetX, shot.exitOffsetY).toFixed(2) + ' m') +
+    section('Mechanism') +
+    row('Flywheel', shot.flywheelRpm.toFixed(0) + ' rpm') +
+    row('Hood Setpoint', formatHood(shot.hoodSetpoint, shot.hoodUnit)) +
     section('Trajectory') +
     row('Range', shot.range.toFixed(2) + ' m') +
     row('Flight Time', shot.flightTime.toFixed(3) + ' s') +
     row('Apex Height', shot.apexHeight.toFixed(2) + ' m') +
     row('Ceiling', shot.ceilingHeight.toFixed(1) + ' m') +
     row('Air Drag', shot.dragEnabled ? 'On' : 'Off') +
-    section('At Target') +
-    row('Vy', shot.vyAtTarget.toFixed(2) + ' m/s') +
-    row('Vx', shot.vxTarget.toFixed(2) + ' m/s') +
-    row('Descent Angle', (Math.atan2(-shot.vzTarget, shot.vxTarget) * 180 / Math.PI).toFixed(1) + '\u00B0') +
+    row('Backspin', shot.spinRpm > 0 ? shot.spinRpm.toFixed(0) + ' rpm' : 'Off') +
+    row('Air Density', shot.airDensity.toFixed(3) + ' kg/m\u00B3') +
+    row('Game Piece', shot.gamePiece) +
+    (shot.landingSpread ? landingRows(shot, row, section) :
+      section('At Target') +
+      row('Vy', shot.vyAtTarget.toFixed(2) + ' m/s') +
+      row('Vx', shot.vxTarget.toFixed(2) + ' m/s') +
+      row('Rim Clearance', shot.rimClearance.toFixed(3) + ' m') +
+      row('Descent Angle', (Math.atan2(-shot.vzTarget, shot.vxTarget) * 180 / Math.PI).toFixed(1) + '\u00B0')) +
+    section('Sensitivity') +
+    row('\u2202h / \u2202v', shot.jacobian.heightSpeed.toFixed(3) + ' m per m/s') +
+    row('\u2202h / \u2202\u03B8', (shot.jacobian.heightAngle * Math.PI / 180).toFixed(3) + ' m/\u00B0') +
+    row('\u2202lat / \u2202\u03C6', (shot.jacobian.lateralTurret * Math.PI / 180).toFixed(3) + ' m/\u00B0') +
+    row('Speed Tol.', '\u00B1' + shot.tolerance.speed.toFixed(2) + ' m/s') +
+    row('Hood Tol.', '\u00B1' + shot.tolerance.angleDeg.toFixed(2) + '\u00B0') +
+    row(turretless ? 'Heading Tol.' : 'Turret Tol.', '\u00B1' + shot.tolerance.turretDeg.toFixed(1) + '\u00B0') +
+    (shot.comparison ? compareRows(shot.comparison, row, section) : '') +
     section('Robot Velocity') +
     row('Tangential', shot.tangentialVelo.toFixed(1) + ' m/s') +
-    row('Radial', shot.radialVelo.toFixed(1) + ' m/s');
+    row('Radial', shot.radialVelo.toFixed(1) + ' m/s') +
+    row('Latency', (shot.latency * 1000).toFixed(0) + ' ms') +
+    row('Release Shift', Math.hypot(shot.releaseOffsetX, shot.releaseOffsetY).toFixed(2) + ' m') +
+    row('Yaw Rate', shot.yawRateDeg.toFixed(0) + '\u00B0/s') +
+    row('\u03C9 \u00D7 r', shot.yawTangential.toFixed(2) + ' m/s');
+}
+
+/** Ground-target rows: where the ball touches down, its 1σ spread and the margin left in the zone. */
+function landingRows(
+  shot: DetailedShot,
+  row: (label: string, val: string) => string,
+  section: (title: string) => string,
+): string {
+  const spread = shot.landingSpread!;
+  return section('Landing') +
+    (shot.landing ? row('Touchdown', `(${shot.landing.x.toFixed(2)}, ${shot.landing.y.toFixed(2)}) m`) : '') +
+    row('Spread Long (1\u03C3)', '\u00B1' + spread.along.toFixed(2) + ' m') +
+    row('Spread Wide (1\u03C3)', '\u00B1' + spread.lateral.toFixed(2) + ' m') +
+    row('Zone Margin', (shot.landingMargin ?? 0).toFixed(2) + ' m') +
+    row('Descent Angle', (Math.atan2(-shot.vzTarget, shot.vxTarget) * 180 / Math.PI).toFixed(1) + '\u00B0');
+}
+
+/** Comparison-piece rows: where the same setpoint lands with the other piece. */
+function compareRows(
+  cmp: PieceComparison,
+  row: (label: string, val: string) => string,
+  section: (title: string) => string,
+): string {
+  const err = cmp.rangeError;
+  const landing = err === null ? 'never reaches target height'
+    : Math.abs(err) < 0.005 ? 'on target'
+    : Math.abs(err).toFixed(2) + ' m ' + (err > 0 ? 'long' : 'short');
+  return section('Compare') + row('Game Piece', cmp.name) + row('At Target Height', landing);
 }
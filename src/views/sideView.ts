@@ -4,6 +4,8 @@
 
 import { prepCanvas, drawArrow, drawAngleArc } from '../drawing';
 import { createLabelPlacer } from '../labels';
+import { openingHalfWidth } from '../hub';
+import { groundTrackSpans } from '../obstacles';
 import type { DetailedShot } from '../types';
 
 export function renderSideView(canvasEl: HTMLCanvasElement, shot: DetailedShot): void {
@@ -12,12 +14,37 @@ export function renderSideView(canvasEl: HTMLCanvasElement, shot: DetailedShot):
   const pw = w - pad.left - pad.right;
   const ph = h - pad.top - pad.bottom;
 
-  // World bounds
-  const xMax = shot.range * 1.08;
-  const showCeiling = shot.zApex >= 6;
+  // Hub opening half-widths along the line of fire (throat and rim)
+  const hub = shot.hub;
+  const zTop = hub.z + hub.rimHeight;
+  const wThroat = openingHalfWidth(hub, shot.bearing);
+  const wRim = openingHalfWidth(
+    { ...hub, radius: hub.radius + hub.rimHeight * Math.tan(hub.funnelAngleRad) }, shot.bearing);
+
+  // Obstacles under the ball's ground track: (start, end, height) along the line of fire
+  const cosB = Math.cos(shot.bearing), sinB = Math.sin(shot.bearing);
+  const track: [number, number, number][] = shot.trajectory.map(pt => [
+    pt.x, shot.launchX + pt.x * cosB - pt.y * sinB, shot.launchY + pt.x * sinB + pt.y * cosB,
+  ]);
+  const profile = shot.obstacles.flatMap(o =>
+    groundTrackSpans(o, track).map(([x0, x1]) => [x0, x1, o.height]));
+  // …and the overhead zones it passes under: the local ceiling
+  const ceilingProfile = shot.overheadZones.flatMap(o =>
+    groundTrackSpans(o, track).map(([x0, x1]) => [x0, x1, o.height]));
+
+  // World bounds (widened to fit a comparison piece's and other families' arcs)
+  const cmp = shot.comparison;
+  const alts = shot.alternates ?? [];
+  const extraPts = [...(cmp ? cmp.trajectory : []), ...alts.flatMap(a => a.trajectory)];
+  const cmpXMax = extraPts.length ? Math.max(...extraPts.map(p => p.x)) : 0;
+  const cmpZMax = extraPts.length ? Math.max(...extraPts.map(p => p.z)) : 0;
+  const xMax = Math.max(shot.range * 1.08, shot.range + wRim + 0.2, cmpXMax * 1.02);
+  const apexMax = Math.max(
+    shot.zApex, cmpZMax, ...profile.map(s => s[2]), ...ceilingProfile.map(s => s[2] - 0.5));
+  const showCeiling = apexMax >= 6;
   const zMax = showCeiling
-    ? Math.max(shot.ceilingHeight * 1.02, shot.zApex + 1)
-    : shot.zApex + 1;
+    ? Math.max(shot.ceilingHeight * 1.02, apexMax + 1)
+    : apexMax + 1;
   const zMin = 0;
   const scaleX = pw / xMax;
   const scaleZ = ph / (zMax - zMin);
@@ -26,6 +53,14 @@ export function renderSideView(canvasEl: HTMLCanvasElement, shot: DetailedShot):
   const toX = (wx: number) => pad.left + wx * sc;
   const toY = (wz: number) => pad.top + ph - (wz - zMin) * sc;
 
+  // Ground target: where the line of fire runs over the landing zone
+  const zoneSpans = shot.landingZone
+    ? groundTrackSpans(shot.landingZone, Array.from({ length: 201 }, (_, i): [number, number, number] => {
+      const s = xMax * i / 200;
+      return [s, shot.launchX + s * cosB, shot.launchY + s * sinB];
+    }))
+    : [];
+
   // Background
   c.fillStyle = '#0d1117';
   c.fillRect(0, 0, w, h);
@@ -38,6 +73,31 @@ export function renderSideView(canvasEl: HTMLCanvasElement, shot: DetailedShot):
   c.lineTo(toX(xMax), toY(0));
   c.stroke();
 
+  // Obstacle profile under the ground track
+  for (const [x0, x1, height] of profile) {
+    c.fillStyle = '#8b949e33';
+    c.fillRect(toX(x0), toY(height), (x1 - x0) * sc, height * sc);
+    c.strokeStyle = '#8b949e99';
+    c.lineWidth = 1;
+    c.strokeRect(toX(x0), toY(height), (x1 - x0) * sc, height * sc);
+  }
+
+  // Overhead zones under the ground track: solid above their clearance
+  for (const [x0, x1, height] of ceilingProfile) {
+    c.fillStyle = '#f851491f';
+    c.fillRect(toX(x0), pad.top, (x1 - x0) * sc, toY(height) - pad.top);
+    c.strokeStyle = '#f85149aa';
+    c.lineWidth = 1.5;
+    c.beginPath();
+    c.moveTo(toX(x0), toY(height));
+    c.lineTo(toX(x1), toY(height));
+    c.stroke();
+    c.fillStyle = '#f85149aa';
+    c.font = '11px sans-serif';
+    c.textAlign = 'center';
+    c.fillText(height.toFixed(2) + 'm', toX((x0 + x1) / 2), toY(height) + 12);
+  }
+
   // Ceiling
   if (showCeiling) {
     c.setLineDash([6, 4]);
@@ -54,7 +114,7 @@ export function renderSideView(canvasEl: HTMLCanvasElement, shot: DetailedShot):
     c.fillText('ceiling ' + shot.ceilingHeight.toFixed(1) + 'm', toX(xMax) - 4, toY(shot.ceilingHeight) - 5);
   }
 
-  // Vacuum trajectory overlay (dashed, when drag is active)
+  // Vacuum trajectory overlay (dashed, when drag or spin is active)
   if (shot.vacuumTrajectory) {
     c.setLineDash([6, 5]);
     c.strokeStyle = '#58a6ff44';
@@ -69,6 +129,51 @@ export function renderSideView(canvasEl: HTMLCanvasElement, shot: DetailedShot):
     c.setLineDash([]);
   }
 
+  // No-spin trajectory overlay (dotted, when drag and spin are both active)
+  if (shot.noSpinTrajectory) {
+    c.setLineDash([2, 4]);
+    c.strokeStyle = '#f0883e88';
+    c.lineWidth = 1.5;
+    c.beginPath();
+    const nt = shot.noSpinTrajectory;
+    c.moveTo(toX(nt[0].x), toY(nt[0].z));
+    for (let i = 1; i < nt.length; i++) {
+      c.lineTo(toX(nt[i].x), toY(nt[i].z));
+    }
+    c.stroke();
+    c.setLineDash([]);
+  }
+
+  // Comparison game piece, same setpoint (long dashes)
+  if (cmp) {
+    c.setLineDash([8, 3]);
+    c.strokeStyle = '#56d4dd';
+    c.lineWidth = 1.5;
+    c.beginPath();
+    const ct = cmp.trajectory;
+    c.moveTo(toX(ct[0].x), toY(ct[0].z));
+    for (let i = 1; i < ct.length; i++) {
+      c.lineTo(toX(ct[i].x), toY(ct[i].z));
+    }
+    c.stroke();
+    c.setLineDash([]);
+  }
+
+  // Other solution families at this position (short dashes)
+  alts.forEach(alt => {
+    c.setLineDash([3, 3]);
+    c.strokeStyle = '#d2a8ff99';
+    c.lineWidth = 1.5;
+    c.beginPath();
+    const at = alt.trajectory;
+    c.moveTo(toX(at[0].x), toY(at[0].z));
+    for (let i = 1; i < at.length; i++) {
+      c.lineTo(toX(at[i].x), toY(at[i].z));
+    }
+    c.stroke();
+    c.setLineDash([]);
+  });
+
   // Trajectory arc
   c.strokeStyle = '#58a6ff';
   c.lineWidth = 2;
@@ -92,13 +197,43 @@ export function renderSideView(canvasEl: HTMLCanvasElement, shot: DetailedShot):
   c.fillStyle = '#3fb950';
   c.fill();
 
-  // Target dot/ring
   const tx = toX(shot.range), tz = toY(shot.targetZ);
+  if (shot.landingSpread) {
+    // Landing zone on the floor, and the touchdown's 1σ spread along the shot
+    c.fillStyle = '#3fb95055';
+    for (const [x0, x1] of zoneSpans) c.fillRect(toX(x0), toY(0) - 4, (x1 - x0) * sc, 4);
+    const spread = shot.landingSpread.along;
+    c.strokeStyle = '#f0883e';
+    c.lineWidth = 2;
+    c.beginPath();
+    c.moveTo(toX(shot.range - spread), toY(0) + 6); c.lineTo(toX(shot.range + spread), toY(0) + 6);
+    c.moveTo(toX(shot.range - spread), toY(0) + 2); c.lineTo(toX(shot.range - spread), toY(0) + 10);
+    c.moveTo(toX(shot.range + spread), toY(0) + 2); c.lineTo(toX(shot.range + spread), toY(0) + 10);
+    c.stroke();
+  } else {
+    // Hub opening to scale: outer body (faint) + funnel walls up to the rim
+    c.strokeStyle = '#58a6ff33';
+    c.lineWidth = 1;
+    c.beginPath();
+    c.moveTo(toX(shot.range - wRim), toY(0)); c.lineTo(toX(shot.range - wRim), toY(zTop));
+    c.moveTo(toX(shot.range + wRim), toY(0)); c.lineTo(toX(shot.range + wRim), toY(zTop));
+    c.stroke();
+    c.strokeStyle = '#58a6ff';
+    c.lineWidth = 2.5;
+    c.beginPath();
+    c.moveTo(toX(shot.range - wRim), toY(zTop)); c.lineTo(toX(shot.range - wThroat), toY(hub.z));
+    c.moveTo(toX(shot.range + wRim), toY(zTop)); c.lineTo(toX(shot.range + wThroat), toY(hub.z));
+    c.stroke();
+  }
+
+  // Ball at the opening (or touchdown), drawn to scale
+  const last = traj[traj.length - 1];
   c.beginPath();
-  c.arc(tx, tz, 8, 0, Math.PI * 2);
-  c.strokeStyle = '#58a6ff';
-  c.lineWidth = 2.5;
+  c.arc(toX(last.x), toY(last.z), shot.ballRadius * sc, 0, Math.PI * 2);
+  c.strokeStyle = '#3fb950aa';
+  c.lineWidth = 1.5;
   c.stroke();
+
   c.beginPath();
   c.arc(tx, tz, 3, 0, Math.PI * 2);
   c.fillStyle = '#58a6ff';
@@ -168,34 +303,45 @@ export function renderSideView(canvasEl: HTMLCanvasElement, shot: DetailedShot):
   lp.resolve();
   lp.draw();
 
-  // Drag legend (top-right corner)
+  // Overlay legend (top-right corner)
+  const legend: { label: string; color: string; width: number; dash: number[] }[] = [];
+  if (shot.vacuumTrajectory || cmp || alts.length > 0) {
+    const mainLabel = cmp
+      ? shot.gamePiece
+      : !shot.vacuumTrajectory ? 'selected'
+      : shot.dragEnabled ? (shot.spinRpm > 0 ? 'drag + spin' : 'drag') : 'spin';
+    legend.push({ label: mainLabel, color: '#58a6ff', width: 2, dash: [] });
+  }
   if (shot.vacuumTrajectory) {
-    const lx = w - pad.right - 6;
-    const ly = pad.top + 14;
-    c.font = '11px sans-serif';
-    c.textAlign = 'right';
-
-    // Solid line sample + label
-    c.strokeStyle = '#58a6ff';
-    c.lineWidth = 2;
-    c.beginPath();
-    c.moveTo(lx - 70, ly - 4);
-    c.lineTo(lx - 44, ly - 4);
-    c.stroke();
-    c.fillStyle = '#8b949e';
-    c.fillText('drag', lx - 2, ly);
+    legend.push({ label: 'vacuum', color: '#58a6ff44', width: 1.5, dash: [4, 3] });
+  }
+  if (shot.noSpinTrajectory) {
+    legend.push({ label: 'no spin', color: '#f0883e88', width: 1.5, dash: [2, 4] });
+  }
+  if (cmp) {
+    legend.push({ label: cmp.name, color: '#56d4dd', width: 1.5, dash: [8, 3] });
+  }
+  alts.forEach(alt => {
+    legend.push({ label: alt.label, color: '#d2a8ff99', width: 1.5, dash: [3, 3] });
+  });
 
-    // Dashed line sample + label
-    c.setLineDash([4, 3]);
-    c.strokeStyle = '#58a6ff44';
-    c.lineWidth = 1.5;
+  const lx = w - pad.right - 6;
+  c.font = '11px sans-serif';
+  c.textAlign = 'right';
+  legend.forEach((entry, i) => {
+    const ly = pad.top + 14 + i * 16;
+    const sampleEnd = lx - 2 - Math.max(62, c.measureText(entry.label).width + 6);
+    c.setLineDash(entry.dash);
+    c.strokeStyle = entry.color;
+    c.lineWidth = entry.width;
     c.beginPath();
-    c.moveTo(lx - 70, ly + 12);
-    c.lineTo(lx - 44, ly + 12);
+    c.moveTo(sampleEnd - 26, ly - 4);
+    c.lineTo(sampleEnd, ly - 4);
     c.stroke();
     c.setLineDash([]);
-    c.fillText('vacuum', lx - 2, ly + 16);
-  }
+    c.fillStyle = '#8b949e';
+    c.fillText(entry.label, lx - 2, ly);
+  });
 
   // Axis labels (margin text — no overlap risk)
   c.fillStyle = '#8b949e';
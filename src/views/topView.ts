@@ -4,6 +4,8 @@
 
 import { prepCanvas, drawArrow, drawAngleArc } from '../drawing';
 import { createLabelPlacer } from '../labels';
+import { obstacleOutline } from '../obstacles';
+import { robotCorners } from '../footprint';
 import type { DetailedShot } from '../types';
 
 export function renderTopView(canvasEl: HTMLCanvasElement, shot: DetailedShot): void {
@@ -18,21 +20,99 @@ export function renderTopView(canvasEl: HTMLCanvasElement, shot: DetailedShot):
   const originOffsetPx = pw * 0.2;
   const robotVArrowScale = (originOffsetPx - 10) / maxRadialDisplay;  // px per m/s
 
-  // World bounds
+  // Field-axis offsets → view frame (x toward target, y lateral)
+  const cosB = Math.cos(shot.bearing), sinB = Math.sin(shot.bearing);
+  const toFrame = (ox: number, oy: number): [number, number] =>
+    [ox * cosB + oy * sinB, -ox * sinB + oy * cosB];
+
+  // Robot center at release, and where it was when the shot was called
+  const [exitAlong, exitLat] = toFrame(shot.exitOffsetX, shot.exitOffsetY);
+  const [relAlong, relLat] = toFrame(shot.releaseOffsetX, shot.releaseOffsetY);
+  const rcx = -exitAlong, rcy = -exitLat;
+  const startX = rcx - relAlong, startY = rcy - relLat;
+
+  // World bounds (extended behind the shooter to fit the latency travel)
   const xMax = shot.range * 1.08;
-  const maxLateral = Math.abs(shot.tangentialVelo) * shot.flightTime;
-  const yExtent = Math.max(maxLateral * 1.5, shot.range * 0.15, 1.0);
-  const scaleX = (pw - originOffsetPx) / xMax;
+  const xBack = Math.max(0, -startX, -rcx + Math.hypot(shot.robotLength, shot.robotWidth) / 2);
+  const maxLateral = Math.abs(shot.tangentialVelo + shot.yawTangential) * shot.flightTime;
+  const yExtent = Math.max(maxLateral * 1.5, Math.abs(startY) * 1.2, shot.range * 0.15, 1.0);
+  const scaleX = (pw - originOffsetPx) / (xMax + xBack);
   const scaleY = ph / (2 * yExtent);
   const sc = Math.min(scaleX, scaleY);
 
   const cy0 = pad.top + ph / 2;
-  const toX = (wx: number) => pad.left + originOffsetPx + wx * sc;
+  const toX = (wx: number) => pad.left + originOffsetPx + (wx + xBack) * sc;
   const toY = (wy: number) => cy0 + wy * sc;
 
   c.fillStyle = '#0d1117';
   c.fillRect(0, 0, w, h);
 
+  // Field obstacles (solid) and overhead zones (dashed, ≤ clearance),
+  // placed relative to the exit point and clipped to the plot
+  if (shot.obstacles.length + shot.overheadZones.length > 0) {
+    c.save();
+    c.beginPath();
+    c.rect(pad.left, pad.top, pw, ph);
+    c.clip();
+    c.font = '11px sans-serif';
+    c.textAlign = 'center';
+    const zones = [
+      ...shot.obstacles.map(o => ({ o, overhead: false })),
+      ...shot.overheadZones.map(o => ({ o, overhead: true })),
+    ];
+    for (const { o, overhead } of zones) {
+      const pts = obstacleOutline(o).map(([fx, fy]) => {
+        const [x, y] = toFrame(fx - shot.launchX, fy - shot.launchY);
+        return [toX(x), toY(y)];
+      });
+      c.beginPath();
+      pts.forEach(([px, py], i) => (i === 0 ? c.moveTo(px, py) : c.lineTo(px, py)));
+      c.closePath();
+      c.setLineDash(overhead ? [5, 3] : []);
+      c.fillStyle = overhead ? '#f851491f' : '#8b949e33';
+      c.fill();
+      c.strokeStyle = overhead ? '#f85149aa' : '#8b949e99';
+      c.lineWidth = 1;
+      c.stroke();
+      c.fillStyle = overhead ? '#f85149' : '#8b949e';
+      c.fillText((overhead ? '\u2264' : '') + o.height.toFixed(2) + 'm',
+        pts.reduce((s, q) => s + q[0], 0) / pts.length,
+        pts.reduce((s, q) => s + q[1], 0) / pts.length + 4);
+    }
+    c.setLineDash([]);
+    c.restore();
+  }
+
+  // Ground target: the landing zone (clipped) and the touchdown's 1σ spread ellipse
+  if (shot.landingZone && shot.landingSpread) {
+    c.save();
+    c.beginPath();
+    c.rect(pad.left, pad.top, pw, ph);
+    c.clip();
+    c.beginPath();
+    obstacleOutline(shot.landingZone).forEach(([fx, fy], i) => {
+      const [x, y] = toFrame(fx - shot.launchX, fy - shot.launchY);
+      if (i === 0) c.moveTo(toX(x), toY(y)); else c.lineTo(toX(x), toY(y));
+    });
+    c.closePath();
+    c.fillStyle = '#3fb9501f';
+    c.fill();
+    c.setLineDash([6, 3]);
+    c.strokeStyle = '#3fb950aa';
+    c.lineWidth = 1.5;
+    c.stroke();
+    c.setLineDash([]);
+    c.restore();
+
+    const last = shot.trajectory[shot.trajectory.length - 1];
+    c.beginPath();
+    c.ellipse(toX(last.x), toY(last.y),
+      Math.max(2, shot.landingSpread.along * sc), Math.max(2, shot.landingSpread.lateral * sc), 0, 0, Math.PI * 2);
+    c.strokeStyle = '#f0883e';
+    c.lineWidth = 1.5;
+    c.stroke();
+  }
+
   // Center line (shooter → target, no drift)
   c.setLineDash([4, 3]);
   c.strokeStyle = '#3fb95044';
@@ -58,6 +138,21 @@ export function renderTopView(canvasEl: HTMLCanvasElement, shot: DetailedShot):
     c.setLineDash([]);
   }
 
+  // Comparison game piece, same setpoint (long dashes)
+  if (shot.comparison) {
+    c.setLineDash([8, 3]);
+    c.strokeStyle = '#56d4dd';
+    c.lineWidth = 1.5;
+    c.beginPath();
+    const ct = shot.comparison.trajectory;
+    c.moveTo(toX(ct[0].x), toY(ct[0].y));
+    for (let i = 1; i < ct.length; i++) {
+      c.lineTo(toX(ct[i].x), toY(ct[i].y));
+    }
+    c.stroke();
+    c.setLineDash([]);
+  }
+
   // Actual trajectory
   c.strokeStyle = '#58a6ff';
   c.lineWidth = 2;
@@ -69,6 +164,39 @@ export function renderTopView(canvasEl: HTMLCanvasElement, shot: DetailedShot):
   }
   c.stroke();
 
+  // Robot outline at its chassis heading, front edge highlighted
+  if (shot.robotLength > 0 && shot.robotWidth > 0) {
+    const corners = robotCorners(rcx, rcy, shot.chassisHeading - shot.bearing, shot.robotLength, shot.robotWidth)
+      .map(([x, y]) => [toX(x), toY(y)]);
+    c.strokeStyle = '#8b949e';
+    c.lineWidth = 1.5;
+    c.beginPath();
+    corners.forEach(([x, y], i) => (i === 0 ? c.moveTo(x, y) : c.lineTo(x, y)));
+    c.closePath();
+    c.stroke();
+    c.strokeStyle = '#e6edf3';
+    c.lineWidth = 3;
+    c.beginPath();
+    c.moveTo(corners[3][0], corners[3][1]);
+    c.lineTo(corners[0][0], corners[0][1]);
+    c.stroke();
+  }
+
+  // Robot center relative to the ball exit point (mount offset)
+  const exitOffset = Math.hypot(shot.exitOffsetX, shot.exitOffsetY);
+  if (exitOffset > 0.01) {
+    c.setLineDash([3, 3]);
+    c.strokeStyle = '#8b949e88';
+    c.lineWidth = 1;
+    c.beginPath();
+    c.moveTo(toX(rcx), toY(rcy));
+    c.lineTo(toX(0), toY(0));
+    c.stroke();
+    c.setLineDash([]);
+    c.strokeStyle = '#8b949e';
+    c.strokeRect(toX(rcx) - 4, toY(rcy) - 4, 8, 8);
+  }
+
   // Shooter dot
   c.beginPath();
   c.arc(toX(0), toY(0), 5, 0, Math.PI * 2);
@@ -96,6 +224,19 @@ export function renderTopView(canvasEl: HTMLCanvasElement, shot: DetailedShot):
   }
   lp.addLine(toX(0), toY(0), toX(shot.range), toY(0), 4);
 
+  // Robot travel during the release latency: decision point → release
+  const releaseShift = Math.hypot(shot.releaseOffsetX, shot.releaseOffsetY);
+  if (releaseShift > 0.01) {
+    c.setLineDash([2, 3]);
+    c.strokeStyle = '#e3b341';
+    c.lineWidth = 1;
+    c.strokeRect(toX(startX) - 5, toY(startY) - 5, 10, 10);
+    c.setLineDash([]);
+    drawArrow(c, toX(startX), toY(startY), toX(rcx), toY(rcy), '#e3b341',
+      'latency: ' + (shot.latency * 1000).toFixed(0) + ' ms, ' + releaseShift.toFixed(2) + ' m',
+      undefined, lp);
+  }
+
   // Robot velocity vectors
   const sx = toX(0), sy = toY(0);
 
@@ -115,11 +256,20 @@ export function renderTopView(canvasEl: HTMLCanvasElement, shot: DetailedShot):
       '#da3633', 'tangential: ' + shot.tangentialVelo.toFixed(1) + ' m/s', undefined, lp);
   }
 
+  // Yaw-induced shooter velocity (ω × r), drawn from the tangential tip
+  if (Math.abs(shot.yawTangential) > 0.05) {
+    const baseY = sy + shot.tangentialVelo * robotVArrowScale;
+    drawArrow(c, sx, baseY,
+      sx,
+      baseY + shot.yawTangential * robotVArrowScale,
+      '#d2a8ff', '\u03C9\u00D7r: ' + shot.yawTangential.toFixed(1) + ' m/s', undefined, lp);
+  }
+
   // Turret adjustment angle arc
   if (Math.abs(shot.turretAdjRad) > 0.01) {
     const adjDeg = (shot.turretAdjRad * 180 / Math.PI).toFixed(1);
     drawAngleArc(c, sx, sy, 35, 0, shot.turretAdjRad, '#da3633',
-      'turret: ' + adjDeg + '\u00B0', lp);
+      (shot.shooterMount === 'fixed' ? 'heading: ' : 'turret: ') + adjDeg + '\u00B0', lp);
   }
 
   // Ball heading vector